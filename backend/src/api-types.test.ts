@@ -0,0 +1,72 @@
+import assert from "node:assert";
+import { test } from "node:test";
+import {
+    Action,
+    compileActionSchema,
+    findUnsupportedSchemaKeywords,
+    isConventionalActionName,
+    validateActionData
+} from "./api-types";
+
+test("an action schema with an $id can be registered more than once", () => {
+    // Every registration sends a new copy of the schema
+    const createAction = (): Action => ({
+        name: "use_item",
+        description: "Use an item",
+        schema: {
+            $id: "https://example.com/use-item.json",
+            type: "object",
+            properties: { item: { type: "string", enum: ["beans", "soda"] } },
+            required: ["item"]
+        }
+    });
+    for (let i = 0; i < 2; i++) {
+        const result = compileActionSchema(createAction());
+        assert(result.isOk(), `Registration ${i + 1} failed to compile the schema`);
+        const validator = result.value;
+        assert(validator);
+        assert(validateActionData(validator, '{"item":"soda"}').isOk());
+        assert(validateActionData(validator, '{"item":"rocks"}').isErr());
+    }
+});
+
+test("unsupported schema keywords are found in nested schemas", () => {
+    const schema = {
+        type: "object",
+        title: "Use item",
+        properties: {
+            item: { type: "string", description: "The item to use" },
+            "target/enemy": { oneOf: [{ type: "string" }, { type: "integer", not: { const: 0 } }] },
+            targets: { type: "array", items: { anyOf: [{ type: "string" }] } }
+        },
+        additionalProperties: false
+    };
+
+    assert.deepStrictEqual(findUnsupportedSchemaKeywords(schema), [
+        { keyword: "title", pointer: "" },
+        { keyword: "description", pointer: "/properties/item" },
+        { keyword: "oneOf", pointer: "/properties/target~1enemy" },
+        { keyword: "not", pointer: "/properties/target~1enemy/oneOf/1" },
+        { keyword: "anyOf", pointer: "/properties/targets/items" },
+        { keyword: "additionalProperties", pointer: "" }
+    ]);
+});
+
+test("property names that match a keyword are not reported", () => {
+    const schema = {
+        type: "object",
+        properties: { title: { type: "string" }, description: { type: "string" } },
+        required: ["title", "description"]
+    };
+
+    assert.deepStrictEqual(findUnsupportedSchemaKeywords(schema), []);
+});
+
+test("action names are checked against the naming convention", () => {
+    for (const name of ["jump", "use_item", "move-left", "slot_2"]) {
+        assert(isConventionalActionName(name), `"${name}" should be conventional`);
+    }
+    for (const name of ["Jump", "useItem", "use item", "_jump", "use__item", "jump-", ""]) {
+        assert(!isConventionalActionName(name), `"${name}" should not be conventional`);
+    }
+});
@@ -3,19 +3,114 @@ import { err, ok, Result } from "neverthrow";
 import { errorOrUndefined } from "./utils";
 
 const ajv = new Ajv();
+/** How many action schemas are compiled by one ajv instance before it is replaced */
+const ACTION_SCHEMAS_PER_AJV = 100;
+/**
+ * Compiles the schemas of registered actions.
+ *
+ * Each schema is removed again once it is compiled, so that schemas with an `$id` can be registered more than once.
+ * ajv still keeps everything it has compiled, so the instance is replaced from time to time,
+ * so that games that register actions over and over don't fill up memory.
+ * Validators that were already compiled keep working.
+ */
+let actionSchemaAjv = new Ajv();
+let actionSchemaCount = 0;
 
-// TODO: Warn about using these keywords
-// const disallowedSchemaKeywords = [
-//     "$anchor", "$comment", "$defs", "$dynamicAnchor", "$dynamicRef", "$id", "$ref", "$schema", "$vocabulary",
-//     "additionalProperties", "allOf", "anyOf", "contentEncoding", "contentMediaType", "contentSchema",
-//     "dependentRequired", "dependentSchemas", "deprecated", "description", "else", "if", "maxProperties",
-//     "minProperties", "not", "oneOf", "patternProperties", "readOnly", "then", "title", "unevaluatedItems",
-//     "unevaluatedProperties", "writeOnly"
-// ];
-// for (const keyword of disallowedSchemaKeywords) {
+/**
+ * JSON schema keywords that the real Neuro does not support.
+ *
+ * Jippity (through ajv) supports them, so actions that use them may work with Jippity but not with Neuro.
+ */
+// prettier-ignore
+export const unsupportedSchemaKeywords = [
+    "$anchor", "$comment", "$defs", "$dynamicAnchor", "$dynamicRef", "$id", "$ref", "$schema",
+    "$vocabulary", "additionalProperties", "allOf", "anyOf", "contentEncoding", "contentMediaType",
+    "contentSchema", "dependentRequired", "dependentSchemas", "deprecated", "description", "else",
+    "if", "maxProperties", "minProperties", "not", "oneOf", "patternProperties", "readOnly", "then",
+    "title", "unevaluatedItems", "unevaluatedProperties", "writeOnly"
+];
+// for (const keyword of unsupportedSchemaKeywords) {
 //     ajv.removeKeyword(keyword);
 // }
 
+/** Keywords whose value is a single subschema */
+// prettier-ignore
+const subschemaKeywords = [
+    "additionalItems", "additionalProperties", "contains", "else", "if", "items", "not",
+    "propertyNames", "then", "unevaluatedItems", "unevaluatedProperties"
+];
+/** Keywords whose value is an array of subschemas */
+const subschemaArrayKeywords = ["allOf", "anyOf", "items", "oneOf", "prefixItems"];
+/** Keywords whose value is an object that maps names to subschemas */
+const subschemaMapKeywords = [
+    "$defs",
+    "definitions",
+    "dependentSchemas",
+    "patternProperties",
+    "properties"
+];
+
+/**
+ * The location of a JSON schema keyword that the real Neuro does not support.
+ */
+export interface UnsupportedSchemaKeyword {
+    keyword: string;
+    /** A JSON pointer to the schema object that contains the keyword, e.g. `/properties/item` */
+    pointer: string;
+}
+
+/**
+ * Find every keyword in a JSON schema (including nested schemas) that the real Neuro does not support.
+ *
+ * Only keywords are reported; property names that happen to match a keyword (e.g. a property called `title`) are not.
+ * @param schema the JSON schema
+ * @param pointer a JSON pointer to the schema; used for recursion
+ */
+export function findUnsupportedSchemaKeywords(
+    schema: unknown,
+    pointer: string = ""
+): UnsupportedSchemaKeyword[] {
+    if (typeof schema !== "object" || schema === null || Array.isArray(schema)) {
+        return [];
+    }
+    const escape = (token: string) => token.replace(/~/g, "~0").replace(/\//g, "~1");
+    const results: UnsupportedSchemaKeyword[] = [];
+    for (const [keyword, value] of Object.entries(schema)) {
+        if (unsupportedSchemaKeywords.includes(keyword)) {
+            results.push({ keyword, pointer });
+        }
+        const keywordPointer = `${pointer}/${escape(keyword)}`;
+        if (subschemaArrayKeywords.includes(keyword) && Array.isArray(value)) {
+            value.forEach((subschema, index) =>
+                results.push(
+                    ...findUnsupportedSchemaKeywords(subschema, `${keywordPointer}/${index}`)
+                )
+            );
+        } else if (subschemaKeywords.includes(keyword)) {
+            results.push(...findUnsupportedSchemaKeywords(value, keywordPointer));
+        } else if (subschemaMapKeywords.includes(keyword) && typeof value === "object" && value) {
+            for (const [name, subschema] of Object.entries(value)) {
+                results.push(
+                    ...findUnsupportedSchemaKeywords(subschema, `${keywordPointer}/${escape(name)}`)
+                );
+            }
+        }
+    }
+    return results;
+}
+
+/** The naming convention for actions described on {@link Action.name} */
+const ACTION_NAME_PATTERN = /^[a-z0-9]+([_-][a-z0-9]+)*$/;
+
+/**
+ * Check whether an action name follows the naming convention described on {@link Action.name},
+ * i.e. lowercase words separated by underscores or dashes.
+ * @param name the action name
+ */
+export function isConventionalActionName(name: string): boolean {
+    return ACTION_NAME_PATTERN.test(name);
+}
+
 /**
  * Tagged union type for all message types.
  */
@@ -26,7 +121,11 @@ export type Message =
     | UnregisterActionsMessage
     | ForceActionMessage
     | ActionResultMessage
-    | ActionMessage;
+    | ActionMessage
+    | ReregisterAllActionsMessage
+    | GracefulShutdownMessage
+    | ImmediateShutdownMessage
+    | ShutdownReadyMessage;
 
 /**
  * A registrable command that Neuro can execute whenever she wants.
@@ -369,6 +468,111 @@ const ActionMessageSchema: JSONSchemaType<ActionMessage> = {
     additionalProperties: false
 };
 
+// *************************
+// * Proposed API Commands *
+// *************************
+// These commands are part of the API proposals in the Neuro SDK, and are not officially supported by Neuro yet
+
+/**
+ * This message is sent by Neuro to make the game register all of its actions again,
+ * e.g. after Neuro has restarted and lost track of them.
+ *
+ * **This command is only a proposal, and is not officially supported yet.**
+ */
+export interface ReregisterAllActionsMessage extends BaseMessage {
+    command: "actions/reregister_all";
+}
+
+/** Schema for {@link ReregisterAllActionsMessage} */
+const ReregisterAllActionsMessageSchema: JSONSchemaType<ReregisterAllActionsMessage> = {
+    type: "object",
+    properties: {
+        command: { type: "string", const: "actions/reregister_all" }
+    },
+    required: ["command"],
+    additionalProperties: false
+};
+
+/**
+ * This message is sent by Neuro to ask the game to shut down at the next graceful shutdown point,
+ * e.g. by saving and quitting to the main menu once the current round is over.
+ * Neuro keeps playing until then.
+ *
+ * The game should send a {@link ShutdownReadyMessage} once it is ready to be closed.
+ *
+ * **This command is only a proposal, and is not officially supported yet.**
+ */
+export interface GracefulShutdownMessage extends BaseMessage {
+    command: "shutdown/graceful";
+    data: {
+        /**
+         * Whether the game should shut down at the next graceful shutdown point.
+         * `false` cancels an earlier request.
+         */
+        wants_shutdown: boolean;
+    };
+}
+
+/** Schema for {@link GracefulShutdownMessage} */
+const GracefulShutdownMessageSchema: JSONSchemaType<GracefulShutdownMessage> = {
+    type: "object",
+    properties: {
+        command: { type: "string", const: "shutdown/graceful" },
+        data: {
+            type: "object",
+            properties: {
+                wants_shutdown: { type: "boolean" }
+            },
+            required: ["wants_shutdown"],
+            additionalProperties: false
+        }
+    },
+    required: ["command", "data"],
+    additionalProperties: false
+};
+
+/**
+ * This message is sent by Neuro when the game needs to shut down as soon as possible.
+ * The game should save what it can, and send a {@link ShutdownReadyMessage} once it is ready to be closed.
+ *
+ * **This command is only a proposal, and is not officially supported yet.**
+ */
+export interface ImmediateShutdownMessage extends BaseMessage {
+    command: "shutdown/immediate";
+}
+
+/** Schema for {@link ImmediateShutdownMessage} */
+const ImmediateShutdownMessageSchema: JSONSchemaType<ImmediateShutdownMessage> = {
+    type: "object",
+    properties: {
+        command: { type: "string", const: "shutdown/immediate" }
+    },
+    required: ["command"],
+    additionalProperties: false
+};
+
+/**
+ * This message should be sent to the server in response to {@link GracefulShutdownMessage} or
+ * {@link ImmediateShutdownMessage}, once the game is ready to be closed.
+ *
+ * **This command is only a proposal, and is not officially supported yet.**
+ */
+export interface ShutdownReadyMessage extends BaseMessage {
+    command: "shutdown/ready";
+    game: string;
+}
+
+/** Schema for {@link ShutdownReadyMessage} */
+const ShutdownReadyMessageSchema: JSONSchemaType<ShutdownReadyMessage> = {
+    type: "object",
+    properties: {
+        command: { type: "string", const: "shutdown/ready" },
+        game: { type: "string" }
+    },
+    required: ["command", "game"],
+    additionalProperties: false
+};
+
 type MessageTypeMapping = {
     startup: StartupMessage;
     context: ContextMessage;
@@ -377,6 +581,10 @@ type MessageTypeMapping = {
     "actions/force": ForceActionMessage;
     "action/result": ActionResultMessage;
     action: ActionMessage;
+    "actions/reregister_all": ReregisterAllActionsMessage;
+    "shutdown/graceful": GracefulShutdownMessage;
+    "shutdown/immediate": ImmediateShutdownMessage;
+    "shutdown/ready": ShutdownReadyMessage;
 };
 
 type MessageType = keyof MessageTypeMapping;
@@ -389,7 +597,11 @@ export const Validators: Record<MessageType, ValidateFunction<BaseMessage>> = {
     "actions/unregister": ajv.compile(UnregisterActionsMessageSchema),
     "actions/force": ajv.compile(ForceActionMessageSchema),
     "action/result": ajv.compile(ActionResultMessageSchema),
-    action: ajv.compile(ActionMessageSchema)
+    action: ajv.compile(ActionMessageSchema),
+    "actions/reregister_all": ajv.compile(ReregisterAllActionsMessageSchema),
+    "shutdown/graceful": ajv.compile(GracefulShutdownMessageSchema),
+    "shutdown/immediate": ajv.compile(ImmediateShutdownMessageSchema),
+    "shutdown/ready": ajv.compile(ShutdownReadyMessageSchema)
 };
 
 function validateAndCast<T extends keyof MessageTypeMapping>(
@@ -454,6 +666,60 @@ export function validateActionSchema(action: Action): Result<null, MessageDeseri
     return ok(null);
 }
 
+/**
+ * Compile an Action's schema so that action data can be validated against it.
+ *
+ * @returns the validation function, or `null` if the action doesn't have a schema
+ */
+export function compileActionSchema(
+    action: Action
+): Result<ValidateFunction | null, MessageDeserializationError> {
+    if (!action.schema || Object.keys(action.schema).length === 0) {
+        return ok(null);
+    }
+    if (actionSchemaCount >= ACTION_SCHEMAS_PER_AJV) {
+        actionSchemaAjv = new Ajv();
+        actionSchemaCount = 0;
+    }
+    actionSchemaCount++;
+    try {
+        return ok(actionSchemaAjv.compile(action.schema));
+    } catch (e) {
+        return err(
+            new MessageDeserializationError("Failed to compile Action schema", errorOrUndefined(e))
+        );
+    } finally {
+        actionSchemaAjv.removeSchema(action.schema);
+    }
+}
+
+/**
+ * Validate the JSON-stringified data of an {@link ActionMessage} against a compiled Action schema.
+ * @param validator the validation function returned by {@link compileActionSchema}
+ * @param data the JSON-stringified data of the action
+ */
+export function validateActionData(
+    validator: ValidateFunction,
+    data: string | undefined
+): Result<null, ActionDataValidationError> {
+    let obj;
+    try {
+        obj = JSON.parse(data || "{}");
+    } catch (e) {
+        return err(
+            new ActionDataValidationError("Action data is not valid JSON", errorOrUndefined(e))
+        );
+    }
+    if (!validator(obj)) {
+        return err(
+            new ActionDataValidationError(
+                `Action data does not match the schema: ${ajv.errorsText(validator.errors, { dataVar: "data" })}`
+            )
+        );
+    }
+    return ok(null);
+}
+
 export class MessageDeserializationError extends Error {
     constructor(message: string, cause?: Error) {
         super(message);
@@ -461,3 +727,11 @@ export class MessageDeserializationError extends Error {
         this.cause = cause;
     }
 }
+
+export class ActionDataValidationError extends Error {
+    constructor(message: string, cause?: Error) {
+        super(message);
+        this.name = "ActionDataValidationError";
+        this.cause = cause;
+    }
+}
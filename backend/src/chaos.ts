@@ -0,0 +1,62 @@
+/**
+ * The ways chaos mode can corrupt the data of an action.
+ */
+export type ChaosCorruption = "wrong-type" | "missing-field" | "invalid-json";
+
+/**
+ * Deliberately corrupt the JSON-stringified data of an action, so that games can test their validation code.
+ *
+ * The type of corruption is chosen at random from the ones that are possible for the given data;
+ * e.g. a field can only be removed if the data is an object with at least one field.
+ * @param data the JSON-stringified data of the action, if any
+ * @param random a function that returns a random number in [0, 1)
+ * @returns the corrupted data and the type of corruption that was applied
+ */
+export function corruptActionData(
+    data: string | undefined,
+    random: () => number
+): { data: string; corruption: ChaosCorruption } {
+    let parsed: unknown = undefined;
+    try {
+        parsed = data ? JSON.parse(data) : undefined;
+    } catch {
+        // The data is already invalid JSON, so it can only be made "more" invalid
+    }
+
+    const fields =
+        typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)
+            ? Object.keys(parsed)
+            : [];
+    const corruptions: ChaosCorruption[] =
+        fields.length > 0 ? ["wrong-type", "missing-field", "invalid-json"] : ["invalid-json"];
+    const corruption = corruptions[Math.floor(random() * corruptions.length)];
+    const field = fields[Math.floor(random() * fields.length)];
+    const object = parsed as Record<string, unknown>;
+
+    switch (corruption) {
+        case "wrong-type":
+            object[field] = valueOfDifferentType(object[field]);
+            return { data: JSON.stringify(object), corruption };
+        case "missing-field":
+            delete object[field];
+            return { data: JSON.stringify(object), corruption };
+        case "invalid-json":
+            // Removing the closing brace (or whatever the last character is) is enough to break the JSON
+            return { data: (data || "{}").slice(0, -1), corruption };
+    }
+}
+
+function valueOfDifferentType(value: unknown): unknown {
+    switch (typeof value) {
+        case "string":
+            return 42;
+        case "number":
+        case "bigint":
+            return "not a number";
+        case "boolean":
+            return "yes";
+        default:
+            // Objects, arrays, and null
+            return "oops";
+    }
+}
@@ -0,0 +1,395 @@
+import fs from "node:fs";
+import assert from "node:assert";
+import { Action } from "./api-types";
+import { JippityHandler } from "./jippity-handler";
+import { log } from "./logging";
+
+// *************************
+// * Simulated Twitch Chat *
+// *************************
+
+/**
+ * A single message from a (simulated) viewer.
+ */
+export interface ChatMessage {
+    /** The viewer's username */
+    user: string;
+    /** The text of the message */
+    text: string;
+}
+
+/**
+ * A kind of viewer, used by the {@link GeneratorChatSource}.
+ *
+ * @example { "name": "backseat_bob", "messages": ["you're doing it wrong", "omg"], "suggestionChance": 0.8 }
+ */
+export interface ChatPersona {
+    /** The viewer's username */
+    name: string;
+    /** Things the viewer says; `{game}` is replaced with the name of the game */
+    messages: string[];
+    /** The chance (from 0 to 1) that the viewer suggests an action instead; defaults to the source's suggestion chance */
+    suggestionChance?: number;
+    /** How often the viewer chats compared to the others; defaults to 1 */
+    weight?: number;
+}
+
+/**
+ * What a {@link ChatSource} knows about the session it is chatting in.
+ */
+export interface ChatContext {
+    /** The name of the game, once it has started */
+    game: string | undefined;
+    /** The actions currently registered by the game */
+    actions: Action[];
+}
+
+/**
+ * Produces chat messages for a {@link ChatSimulator}.
+ */
+export interface ChatSource {
+    /** The name of the source, used in log messages */
+    readonly name: string;
+
+    /**
+     * Return the messages that were sent to chat since the last call; may be empty.
+     * @param context the session the messages are for
+     */
+    next(context: ChatContext): Promise<ChatMessage[]>;
+}
+
+/** The viewers used by the {@link GeneratorChatSource} if no personas are configured */
+export const DEFAULT_PERSONAS: ChatPersona[] = [
+    {
+        name: "lurker_larry",
+        messages: ["hi jippity", "first time catching a stream", "o7", "this is so relaxing"],
+        suggestionChance: 0
+    },
+    {
+        name: "backseat_bob",
+        messages: ["you're doing it wrong", "why would you do that", "no no no", "skill issue"],
+        suggestionChance: 0.8
+    },
+    {
+        name: "randy_fan_42",
+        messages: [
+            "where is randy??",
+            "tell us a story about randy",
+            "is neuro watching?",
+            "say hi to randy for me"
+        ]
+    },
+    {
+        name: "speedrunner_sam",
+        messages: [
+            "any% {game} when?",
+            "you could have skipped that",
+            "{game} is such a good game",
+            "what's your pb in {game}?"
+        ],
+        suggestionChance: 0.4
+    }
+];
+
+/** Templates for messages that push the AI towards an action; `{action}` is replaced with the suggested action */
+const SUGGESTION_TEMPLATES = [
+    "{action}",
+    "{action}!!",
+    "you should {action}",
+    "just {action} already",
+    "{action} NOW",
+    "chat says {action}",
+    "why don't you {action}?"
+];
+
+/**
+ * Makes up chat messages from a list of personas.
+ *
+ * Some messages are suggestions that name one of the registered actions (e.g. "use item shotgun"),
+ * which can push the AI towards that action.
+ */
+export class GeneratorChatSource implements ChatSource {
+    readonly name = "generator";
+    private readonly personas: ChatPersona[];
+    private readonly suggestionChance: number;
+    private readonly random: () => number;
+
+    /**
+     * @param personas the viewers who chat
+     * @param suggestionChance the chance (from 0 to 1) that a message is a suggestion, for personas that don't set one
+     * @param random a function that returns a random number in [0, 1); use a seeded function for deterministic chat
+     */
+    constructor(
+        personas: ChatPersona[],
+        suggestionChance: number,
+        random: () => number = Math.random
+    ) {
+        assert(personas.length > 0, "At least one persona is required");
+        this.personas = personas;
+        this.suggestionChance = suggestionChance;
+        this.random = random;
+    }
+
+    /**
+     * Load personas from a JSON file containing an array of {@link ChatPersona}s.
+     * @param path the path to the JSON file
+     * @param suggestionChance the chance that a message is a suggestion, for personas that don't set one
+     * @param random a function that returns a random number in [0, 1)
+     */
+    public static fromFile(
+        path: string,
+        suggestionChance: number,
+        random: () => number = Math.random
+    ): GeneratorChatSource {
+        const personas: unknown = JSON.parse(fs.readFileSync(path, "utf-8"));
+        if (!Array.isArray(personas) || personas.length === 0) {
+            throw new Error(`Persona file "${path}" must contain a non-empty JSON array`);
+        }
+        personas.forEach((persona, index) => {
+            const valid =
+                typeof persona?.name === "string" &&
+                Array.isArray(persona.messages) &&
+                persona.messages.every((message: unknown) => typeof message === "string");
+            if (!valid) {
+                throw new Error(
+                    `Persona ${index} in persona file "${path}" is invalid: ${JSON.stringify(persona)}`
+                );
+            }
+        });
+        return new GeneratorChatSource(personas, suggestionChance, random);
+    }
+
+    public async next(context: ChatContext): Promise<ChatMessage[]> {
+        const persona = this.pickPersona();
+        const suggestionChance = persona.suggestionChance ?? this.suggestionChance;
+        if (context.actions.length > 0 && this.random() < suggestionChance) {
+            return [{ user: persona.name, text: this.suggest(context.actions) }];
+        }
+        if (persona.messages.length === 0) {
+            return [];
+        }
+        const text = this.pick(persona.messages).replaceAll("{game}", context.game ?? "this game");
+        return [{ user: persona.name, text: text }];
+    }
+
+    /**
+     * Make up a message that suggests one of the actions, including a value from its schema if there is one.
+     */
+    private suggest(actions: Action[]): string {
+        const action = this.pick(actions);
+        let suggestion = action.name.replace(/[_-]+/g, " ");
+        const values = enumValues(action.schema);
+        if (values.length > 0) {
+            suggestion += ` ${this.pick(values)}`;
+        }
+        return this.pick(SUGGESTION_TEMPLATES).replace("{action}", suggestion);
+    }
+
+    private pickPersona(): ChatPersona {
+        const totalWeight = this.personas.reduce((sum, p) => sum + (p.weight ?? 1), 0);
+        let remaining = this.random() * totalWeight;
+        for (const persona of this.personas) {
+            remaining -= persona.weight ?? 1;
+            if (remaining < 0) {
+                return persona;
+            }
+        }
+        return this.personas[this.personas.length - 1];
+    }
+
+    private pick<T>(items: T[]): T {
+        return items[Math.floor(this.random() * items.length)];
+    }
+}
+
+/**
+ * Return the values of the first `enum` in an action's schema, e.g. the items that can be used.
+ */
+function enumValues(schema: Action["schema"]): string[] {
+    const properties: Record<string, { enum?: unknown[] }> =
+        (schema as { properties?: Record<string, { enum?: unknown[] }> } | undefined)?.properties ??
+        {};
+    for (const property of Object.values(properties)) {
+        if (Array.isArray(property?.enum) && property.enum.length > 0) {
+            return property.enum.map((value) => String(value));
+        }
+    }
+    return [];
+}
+
+/**
+ * Replays chat messages from a text file, one message per tick, starting over at the end.
+ *
+ * Each line is a message in the format `username: message`; lines without a username are sent by `viewer`.
+ * Empty lines and lines starting with `#` are ignored.
+ */
+export class FileChatSource implements ChatSource {
+    readonly name = "file";
+    private readonly messages: ChatMessage[];
+    private nextIndex = 0;
+
+    constructor(messages: ChatMessage[]) {
+        assert(messages.length > 0, "At least one chat message is required");
+        this.messages = messages;
+    }
+
+    /**
+     * Load chat messages from a text file.
+     * @param path the path to the text file
+     */
+    public static fromFile(path: string): FileChatSource {
+        const messages = fs
+            .readFileSync(path, "utf-8")
+            .split(/\r?\n/)
+            .map((line) => line.trim())
+            .filter((line) => line.length > 0 && !line.startsWith("#"))
+            .map(parseChatLine);
+        if (messages.length === 0) {
+            throw new Error(`Chat file "${path}" doesn't contain any messages`);
+        }
+        return new FileChatSource(messages);
+    }
+
+    public async next(): Promise<ChatMessage[]> {
+        const message = this.messages[this.nextIndex];
+        this.nextIndex = (this.nextIndex + 1) % this.messages.length;
+        return [message];
+    }
+}
+
+/**
+ * Parse a line in the format `username: message`.
+ */
+function parseChatLine(line: string): ChatMessage {
+    const match = /^([A-Za-z0-9_]{1,25}):\s*(.+)$/.exec(line);
+    return match ? { user: match[1], text: match[2] } : { user: "viewer", text: line };
+}
+
+/**
+ * Polls an HTTP endpoint for new chat messages, e.g. a bridge to a real Twitch chat.
+ *
+ * The endpoint must respond to `GET` requests with a JSON array of messages that are new since the last request,
+ * either as `{ "user": "...", "text": "..." }` objects or as strings in the format `username: message`.
+ */
+export class HttpChatSource implements ChatSource {
+    readonly name = "http";
+    private readonly url: string;
+
+    constructor(url: string) {
+        this.url = url;
+    }
+
+    public async next(): Promise<ChatMessage[]> {
+        let body: unknown;
+        try {
+            const response = await fetch(this.url);
+            if (!response.ok) {
+                log.warn(`Chat endpoint ${this.url} responded with status ${response.status}`);
+                return [];
+            }
+            body = await response.json();
+        } catch (e) {
+            log.warn(`Failed to get chat messages from ${this.url}`, e);
+            return [];
+        }
+        if (!Array.isArray(body)) {
+            log.warn(`Chat endpoint ${this.url} didn't respond with a JSON array`);
+            return [];
+        }
+        return body.flatMap((item: unknown): ChatMessage[] => {
+            if (typeof item === "string") {
+                return [parseChatLine(item)];
+            }
+            const message = item as Partial<ChatMessage> | null;
+            if (typeof message?.user === "string" && typeof message.text === "string") {
+                return [{ user: message.user, text: message.text }];
+            }
+            log.warn(`Ignoring invalid chat message from ${this.url}: ${JSON.stringify(item)}`);
+            return [];
+        });
+    }
+}
+
+export interface ChatSimulatorOptions {
+    /** The average time in milliseconds between messages (or requests, for the HTTP source) */
+    intervalMs: number;
+    /** The chance (from 0 to 1) that Jippity responds right away when a message arrives while he is idle */
+    replyChance: number;
+    /** A function that returns a random number in [0, 1) */
+    random: () => number;
+}
+
+/**
+ * Feeds messages from a {@link ChatSource} into a session's conversation history, at a configurable rate.
+ *
+ * Chat keeps going while Jippity is busy or paused; the AI sees the latest messages the next time it is asked what to do.
+ */
+export class ChatSimulator {
+    private readonly handler: JippityHandler;
+    private readonly source: ChatSource;
+    private readonly options: ChatSimulatorOptions;
+    private timer: NodeJS.Timeout | undefined = undefined;
+    private stopped = false;
+
+    constructor(handler: JippityHandler, source: ChatSource, options: ChatSimulatorOptions) {
+        this.handler = handler;
+        this.source = source;
+        this.options = options;
+    }
+
+    /**
+     * Start sending chat messages.
+     */
+    public start() {
+        log.info(
+            `Simulating chat for ${this.handler.sessionId} using the "${this.source.name}" source`
+        );
+        this.scheduleTick();
+    }
+
+    /**
+     * Stop sending chat messages.
+     */
+    public stop() {
+        this.stopped = true;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    private scheduleTick() {
+        if (this.stopped) {
+            return;
+        }
+        // Vary the delay, so that chat doesn't feel like clockwork
+        const delay = this.options.intervalMs * (0.5 + this.options.random());
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            this.tick().finally(() => this.scheduleTick());
+        }, delay);
+    }
+
+    private async tick() {
+        const handler = this.handler;
+        // Nobody is watching until the game has started
+        if (handler.state.id === "state/waiting-for-game-startup") {
+            return;
+        }
+        const messages = await this.source.next({ game: handler.game, actions: handler.actions });
+        if (this.stopped || handler.closed) {
+            return;
+        }
+        messages.forEach((message) => handler.addChatMessage(message));
+
+        const canReply =
+            handler.state.id === "state/idle" &&
+            !handler.paused &&
+            !handler.operatorMode &&
+            handler.messageQueue.isEmpty();
+        if (messages.length > 0 && canReply && this.options.random() < this.options.replyChance) {
+            log.debug("Jippity got distracted by chat");
+            handler.callOpenAI();
+        }
+    }
+}
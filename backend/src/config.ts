@@ -0,0 +1,600 @@
+import fs from "node:fs";
+import path from "node:path";
+import { EventEmitter } from "node:events";
+import Ajv, { JSONSchemaType } from "ajv";
+import { err, ok, Result } from "neverthrow";
+import {
+    ArgumentMode,
+    GameMismatchPolicy,
+    InterruptionPolicy,
+    MessageQueueOverflowPolicy
+} from "./jippity-types";
+import { log } from "./logging";
+import { errorOrUndefined } from "./utils";
+import { availablePersonas, Persona } from "./personas";
+
+// *****************
+// * Configuration *
+// *****************
+
+/** How often the config file (and the system prompt file) are checked for changes, in milliseconds */
+const WATCH_INTERVAL_MS = 1_000;
+
+/** Shorter intervals are raised to this many milliseconds, for the sake of your wallet */
+const MIN_INTERVAL_MS = 1_000;
+
+/** The config file that is used if `JIPPITY_CONFIG_FILE` isn't set, if it exists */
+export const DEFAULT_CONFIG_FILE = "jippity.config.json";
+
+/**
+ * Everything that can be configured, either in the config file or with environment variables.
+ *
+ * See {@link ENVIRONMENT_VARIABLES} for the environment variable that overrides each setting.
+ */
+export interface JippityConfig {
+    /** The OpenAI model to use; must support tools */
+    model: string;
+    temperature: number;
+    maxCompletionTokens: number;
+    topP: number;
+    frequencyPenalty: number;
+    presencePenalty: number;
+    /** The initial "system" message seen by the AI */
+    systemPrompt: string;
+    /** If set, the system prompt is read from this file instead; relative to the config file it is set in */
+    systemPromptFile?: string;
+    /** The persona Jippity plays as, unless one is chosen for the game in {@link gamePersonas} */
+    persona: string;
+    /** Extra personas, by name; these replace built-in personas with the same name */
+    personas: Record<string, Persona>;
+    /** The persona to use for each game, by a pattern of the game's name (`*` matches anything) */
+    gamePersonas: Record<string, string>;
+
+    /** Decides what Jippity says and does */
+    decisionProvider: "openai" | "randy" | "scripted" | "replay";
+    /** Makes the "randy" decision provider, chaos mode, and simulated chat deterministic */
+    randomSeed?: number;
+    /** Only used by the "scripted" decision provider */
+    scriptFile?: string;
+    /** Only used by the "replay" decision provider */
+    replayFile?: string;
+
+    /** The estimated number of tokens of conversation history that can be sent to the AI */
+    contextTokenBudget: number;
+    /** What to do with old messages once the token budget is reached */
+    contextStrategy: "summarize" | "drop";
+    /** The number of times Jippity will retry a forced action after an unsuccessful action result */
+    forcedActionMaxRetries: number;
+    /** The number of failed calls to the decision provider in a row before Jippity takes a break */
+    circuitBreakerThreshold: number;
+    /** How long Jippity takes a break for, in milliseconds */
+    circuitBreakerCooldownMs: number;
+    /** How Jippity handles action data that doesn't match the action's schema */
+    argumentMode: ArgumentMode;
+    /** The chance (from 0 to 1) that chaos mode will corrupt the data of an action */
+    chaosRate: number;
+    /** If true, the AI may use several tools at once, and each one is sent to the game as a separate action */
+    parallelActions: boolean;
+    /** If true, actions that use unsupported schema keywords or break the naming convention are not registered */
+    rejectNonconformingActions: boolean;
+    /** What happens to messages whose `game` doesn't match the session's game */
+    gameMismatchPolicy: GameMismatchPolicy;
+    /** Action results that take longer than this many milliseconds are reported as slow in conformance reports */
+    slowResultMs: number;
+    /** How long Jippity waits for the result of an action before carrying on without it, in milliseconds; 0 waits forever */
+    actionResultTimeoutMs: number;
+    /** If true, action results that arrive after their action timed out are reported as conformance failures */
+    lateResultsAreErrors: boolean;
+    /** How long the game has to send "shutdown/ready" after being asked to shut down, in milliseconds */
+    shutdownTimeoutMs: number;
+    /** The maximum number of messages from the game waiting to be handled; 0 means there is no limit */
+    messageQueueLimit: number;
+    /** Which `context` message is dropped when a message arrives while the message queue is full */
+    messageQueueOverflowPolicy: MessageQueueOverflowPolicy;
+    /** If set, every session is recorded to a JSONL file in this directory */
+    recordingDir?: string;
+    /** If set, a conformance report is written to this directory whenever a game disconnects */
+    conformanceReportDir?: string;
+
+    /** The time in milliseconds Jippity stays idle before calling the AI unprompted */
+    intervalMs: number;
+    /** A random amount of time up to this many milliseconds is added to or removed from each interval */
+    intervalJitterMs: number;
+    /** The chance (from 0 to 1) that Jippity will say/do something each time the interval is up */
+    talkChance: number;
+    /** How fast Jippity talks; 0 makes him respond instantly */
+    wordsPerMinute: number;
+    /** What happens when the game forces an action while Jippity is talking */
+    interruptionPolicy: InterruptionPolicy;
+    /** If set, Jippity's text responses are turned into WAV files by this command */
+    ttsCommand?: string;
+    /** The directory the WAV files are written to */
+    ttsDir: string;
+
+    /** Where simulated chat messages come from */
+    chatSource: "none" | "generator" | "file" | "http";
+    /** Only used by the "generator" chat source; the built-in personas are used if this isn't set */
+    chatPersonasFile?: string;
+    /** Only used by the "file" chat source */
+    chatFile?: string;
+    /** Only used by the "http" chat source */
+    chatUrl?: string;
+    /** The average number of chat messages per minute (or requests per minute, for the "http" chat source) */
+    chatRate: number;
+    /** The chance (from 0 to 1) that a generated message suggests one of the registered actions */
+    chatSuggestionChance: number;
+    /** The chance (from 0 to 1) that Jippity responds right away when a chat message arrives while he is idle */
+    chatReplyChance: number;
+
+    /** The port the WebSocket server listens on */
+    wssPort: number;
+    /** The port the web dashboard is served on; 0 disables the dashboard */
+    dashboardPort: number;
+    logLevel: "error" | "warn" | "info" | "debug";
+}
+
+export const DEFAULT_CONFIG: JippityConfig = {
+    model: "gpt-4o-mini",
+    temperature: 1,
+    maxCompletionTokens: 2048,
+    topP: 1,
+    frequencyPenalty: 0,
+    presencePenalty: 0,
+    systemPrompt:
+        "You are Jippity, an artificial intelligence designed to play video games on a livestream.\n" +
+        "The messages you receive contain information about what's happening in the game." +
+        "You will use function calls to perform game actions. " +
+        "Do not attempt to make in-game actions in your text responses. " +
+        "Remember that you are the one playing the game, not the audience.\n" +
+        "Messages starting with [Chat] are from viewers in your livestream chat. " +
+        "You can respond to them, but you don't have to do what they say.\n" +
+        "\n" +
+        "If you don't have any functions available or in-game actions you want to take, you can talk about your half-brother Randy and your cousin Neuro-sama." +
+        "If you are feeling lonely because no one is talking in chat, you can make up stories about Randy and Neuro." +
+        "Try to limit your monologues to a few sentences at a time.",
+    persona: "default",
+    personas: {},
+    gamePersonas: {},
+    decisionProvider: "openai",
+    contextTokenBudget: 16_000,
+    contextStrategy: "summarize",
+    forcedActionMaxRetries: 3,
+    circuitBreakerThreshold: 5,
+    circuitBreakerCooldownMs: 60_000,
+    argumentMode: "passthrough",
+    chaosRate: 0.3,
+    parallelActions: false,
+    rejectNonconformingActions: false,
+    gameMismatchPolicy: "reject",
+    slowResultMs: 2_000,
+    actionResultTimeoutMs: 30_000,
+    lateResultsAreErrors: false,
+    shutdownTimeoutMs: 30_000,
+    messageQueueLimit: 100,
+    messageQueueOverflowPolicy: "drop-oldest",
+    intervalMs: 10_000,
+    intervalJitterMs: 0,
+    talkChance: 1,
+    wordsPerMinute: 180,
+    interruptionPolicy: "queue",
+    ttsDir: "./speech",
+    chatSource: "none",
+    chatRate: 6,
+    chatSuggestionChance: 0.2,
+    chatReplyChance: 0,
+    wssPort: 8000,
+    dashboardPort: 0,
+    logLevel: "info"
+};
+
+/** The environment variable that overrides each setting; some settings can only be set in the config file */
+export const ENVIRONMENT_VARIABLES: Partial<Record<keyof JippityConfig, string>> = {
+    model: "OPENAI_MODEL",
+    temperature: "JIPPITY_TEMPERATURE",
+    maxCompletionTokens: "JIPPITY_MAX_COMPLETION_TOKENS",
+    topP: "JIPPITY_TOP_P",
+    frequencyPenalty: "JIPPITY_FREQUENCY_PENALTY",
+    presencePenalty: "JIPPITY_PRESENCE_PENALTY",
+    systemPrompt: "JIPPITY_SYSTEM_PROMPT",
+    systemPromptFile: "JIPPITY_SYSTEM_PROMPT_FILE",
+    persona: "JIPPITY_PERSONA",
+    decisionProvider: "JIPPITY_DECISION_PROVIDER",
+    randomSeed: "JIPPITY_RANDOM_SEED",
+    scriptFile: "JIPPITY_SCRIPT_FILE",
+    replayFile: "JIPPITY_REPLAY_FILE",
+    contextTokenBudget: "JIPPITY_CONTEXT_TOKEN_BUDGET",
+    contextStrategy: "JIPPITY_CONTEXT_STRATEGY",
+    forcedActionMaxRetries: "JIPPITY_FORCED_ACTION_MAX_RETRIES",
+    circuitBreakerThreshold: "JIPPITY_CIRCUIT_BREAKER_THRESHOLD",
+    circuitBreakerCooldownMs: "JIPPITY_CIRCUIT_BREAKER_COOLDOWN_MS",
+    argumentMode: "JIPPITY_ARGUMENT_MODE",
+    chaosRate: "JIPPITY_CHAOS_RATE",
+    parallelActions: "JIPPITY_PARALLEL_ACTIONS",
+    rejectNonconformingActions: "JIPPITY_REJECT_NONCONFORMING_ACTIONS",
+    gameMismatchPolicy: "JIPPITY_GAME_MISMATCH_POLICY",
+    slowResultMs: "JIPPITY_SLOW_RESULT_MS",
+    actionResultTimeoutMs: "JIPPITY_ACTION_RESULT_TIMEOUT_MS",
+    lateResultsAreErrors: "JIPPITY_LATE_RESULTS_ARE_ERRORS",
+    shutdownTimeoutMs: "JIPPITY_SHUTDOWN_TIMEOUT_MS",
+    messageQueueLimit: "JIPPITY_MESSAGE_QUEUE_LIMIT",
+    messageQueueOverflowPolicy: "JIPPITY_MESSAGE_QUEUE_OVERFLOW_POLICY",
+    recordingDir: "JIPPITY_RECORDING_DIR",
+    conformanceReportDir: "JIPPITY_CONFORMANCE_REPORT_DIR",
+    intervalMs: "JIPPITY_INTERVAL_MS",
+    intervalJitterMs: "JIPPITY_INTERVAL_JITTER_MS",
+    talkChance: "JIPPITY_TALK_CHANCE",
+    wordsPerMinute: "JIPPITY_WORDS_PER_MINUTE",
+    interruptionPolicy: "JIPPITY_INTERRUPTION_POLICY",
+    ttsCommand: "JIPPITY_TTS_COMMAND",
+    ttsDir: "JIPPITY_TTS_DIR",
+    chatSource: "JIPPITY_CHAT_SOURCE",
+    chatPersonasFile: "JIPPITY_CHAT_PERSONAS_FILE",
+    chatFile: "JIPPITY_CHAT_FILE",
+    chatUrl: "JIPPITY_CHAT_URL",
+    chatRate: "JIPPITY_CHAT_RATE",
+    chatSuggestionChance: "JIPPITY_CHAT_SUGGESTION_CHANCE",
+    chatReplyChance: "JIPPITY_CHAT_REPLY_CHANCE",
+    wssPort: "WSS_PORT",
+    dashboardPort: "JIPPITY_DASHBOARD_PORT",
+    logLevel: "LOG_LEVEL"
+};
+
+/**
+ * Settings that only take effect when Jippity is restarted.
+ *
+ * Most other settings take effect immediately; some (e.g. the decision provider) only apply to games that connect later.
+ */
+export const RESTART_REQUIRED: (keyof JippityConfig)[] = ["wssPort", "dashboardPort"];
+
+/** A chance from 0 to 1 */
+const chanceSchema = { type: "number", minimum: 0, maximum: 1 } as const;
+/** An optional string */
+const optionalStringSchema = { type: "string", nullable: true } as const;
+
+export const configSchema: JSONSchemaType<JippityConfig> = {
+    type: "object",
+    properties: {
+        model: { type: "string", minLength: 1 },
+        temperature: { type: "number", minimum: 0, maximum: 2 },
+        maxCompletionTokens: { type: "integer", minimum: 1 },
+        topP: { type: "number", minimum: 0, maximum: 1 },
+        frequencyPenalty: { type: "number", minimum: -2, maximum: 2 },
+        presencePenalty: { type: "number", minimum: -2, maximum: 2 },
+        systemPrompt: { type: "string" },
+        systemPromptFile: optionalStringSchema,
+        persona: { type: "string" },
+        personas: {
+            type: "object",
+            required: [],
+            additionalProperties: {
+                type: "object",
+                properties: {
+                    description: { type: "string" },
+                    systemPrompt: { type: "string", nullable: true },
+                    temperature: { type: "number", minimum: 0, maximum: 2, nullable: true },
+                    topP: { type: "number", minimum: 0, maximum: 1, nullable: true },
+                    frequencyPenalty: { type: "number", minimum: -2, maximum: 2, nullable: true },
+                    presencePenalty: { type: "number", minimum: -2, maximum: 2, nullable: true },
+                    maxCompletionTokens: { type: "integer", minimum: 1, nullable: true },
+                    intervalMs: { type: "integer", minimum: 0, nullable: true },
+                    intervalJitterMs: { type: "integer", minimum: 0, nullable: true },
+                    talkChance: { ...chanceSchema, nullable: true },
+                    wordsPerMinute: { type: "number", minimum: 0, nullable: true }
+                },
+                required: ["description"],
+                additionalProperties: false
+            }
+        },
+        gamePersonas: {
+            type: "object",
+            required: [],
+            additionalProperties: { type: "string" }
+        },
+        decisionProvider: { type: "string", enum: ["openai", "randy", "scripted", "replay"] },
+        randomSeed: { type: "integer", nullable: true },
+        scriptFile: optionalStringSchema,
+        replayFile: optionalStringSchema,
+        contextTokenBudget: { type: "integer", minimum: 1 },
+        contextStrategy: { type: "string", enum: ["summarize", "drop"] },
+        forcedActionMaxRetries: { type: "integer", minimum: 0 },
+        circuitBreakerThreshold: { type: "integer", minimum: 1 },
+        circuitBreakerCooldownMs: { type: "integer", minimum: 0 },
+        argumentMode: { type: "string", enum: ["strict", "passthrough", "chaos"] },
+        chaosRate: chanceSchema,
+        parallelActions: { type: "boolean" },
+        rejectNonconformingActions: { type: "boolean" },
+        gameMismatchPolicy: { type: "string", enum: ["reject", "route", "startup"] },
+        slowResultMs: { type: "integer", minimum: 0 },
+        actionResultTimeoutMs: { type: "integer", minimum: 0 },
+        lateResultsAreErrors: { type: "boolean" },
+        shutdownTimeoutMs: { type: "integer", minimum: 0 },
+        messageQueueLimit: { type: "integer", minimum: 0 },
+        messageQueueOverflowPolicy: { type: "string", enum: ["drop-oldest", "drop-newest"] },
+        recordingDir: optionalStringSchema,
+        conformanceReportDir: optionalStringSchema,
+        // Shorter intervals are clamped to MIN_INTERVAL_MS after validation
+        intervalMs: { type: "integer", minimum: 0 },
+        intervalJitterMs: { type: "integer", minimum: 0 },
+        talkChance: chanceSchema,
+        wordsPerMinute: { type: "number", minimum: 0 },
+        interruptionPolicy: { type: "string", enum: ["queue", "interrupt"] },
+        ttsCommand: optionalStringSchema,
+        ttsDir: { type: "string" },
+        chatSource: { type: "string", enum: ["none", "generator", "file", "http"] },
+        chatPersonasFile: optionalStringSchema,
+        chatFile: optionalStringSchema,
+        chatUrl: optionalStringSchema,
+        chatRate: { type: "number", exclusiveMinimum: 0 },
+        chatSuggestionChance: chanceSchema,
+        chatReplyChance: chanceSchema,
+        wssPort: { type: "integer", minimum: 1, maximum: 65_535 },
+        dashboardPort: { type: "integer", minimum: 0, maximum: 65_535 },
+        logLevel: { type: "string", enum: ["error", "warn", "info", "debug"] }
+    },
+    // The settings that have a default value
+    required: Object.keys(DEFAULT_CONFIG) as JSONSchemaType<JippityConfig>["required"],
+    additionalProperties: false
+};
+
+const ajv = new Ajv({ allErrors: true });
+const validateConfig = ajv.compile(configSchema);
+
+/**
+ * Thrown when the config file or an environment variable is invalid.
+ */
+export class ConfigError extends Error {
+    constructor(message: string, options?: ErrorOptions) {
+        super(message, options);
+        this.name = "ConfigError";
+    }
+}
+
+/**
+ * Events emitted by {@link ConfigManager}.
+ */
+export type ConfigManagerEvents = {
+    /** Emitted after the config file was changed and reloaded successfully */
+    change: [config: Readonly<JippityConfig>, changedKeys: (keyof JippityConfig)[]];
+};
+
+/**
+ * Loads the configuration from the defaults, the config file, and environment variables (in increasing priority),
+ * and reloads it whenever the config file changes.
+ *
+ * The same {@link config} object is updated in place, so code that reads it always sees the current configuration.
+ */
+export class ConfigManager extends EventEmitter<ConfigManagerEvents> {
+    /** The current configuration */
+    readonly config: Readonly<JippityConfig>;
+    /** The path to the config file, if there is one */
+    readonly file: string | undefined;
+    private readonly environment: NodeJS.ProcessEnv;
+    private watchedFiles: string[] = [];
+
+    /**
+     * Load the configuration.
+     * @param file the path to the config file; if `undefined`, only the defaults and environment variables are used
+     * @param environment the environment variables that override the config file
+     * @throws {ConfigError} if the configuration is invalid
+     */
+    constructor(file: string | undefined, environment: NodeJS.ProcessEnv = process.env) {
+        super();
+        this.file = file;
+        this.environment = environment;
+        const result = this.read();
+        if (result.isErr()) {
+            throw result.error;
+        }
+        this.config = result.value;
+    }
+
+    /**
+     * Reload the configuration whenever the config file (or the system prompt file) changes.
+     *
+     * If the new configuration is invalid, an error is logged and the current configuration is kept.
+     */
+    public watch() {
+        this.watchFiles();
+    }
+
+    /**
+     * Stop watching for changes.
+     */
+    public stopWatching() {
+        this.watchedFiles.forEach((file) => fs.unwatchFile(file));
+        this.watchedFiles = [];
+    }
+
+    /**
+     * Read the configuration again and apply any changes.
+     * @returns the settings that changed, or an error if the new configuration is invalid
+     */
+    public reload(): Result<(keyof JippityConfig)[], ConfigError> {
+        const result = this.read();
+        if (result.isErr()) {
+            return err(result.error);
+        }
+        const current = this.config as JippityConfig;
+        const keys = new Set([...Object.keys(current), ...Object.keys(result.value)]) as Set<
+            keyof JippityConfig
+        >;
+        const changedKeys = [...keys].filter(
+            (key) => JSON.stringify(current[key]) !== JSON.stringify(result.value[key])
+        );
+        if (changedKeys.length > 0) {
+            for (const key of keys) {
+                delete current[key];
+            }
+            Object.assign(current, result.value);
+            this.emit("change", this.config, changedKeys);
+        }
+        // The system prompt file may have changed
+        this.watchFiles();
+        return ok(changedKeys);
+    }
+
+    private read(): Result<JippityConfig, ConfigError> {
+        const config: Record<string, unknown> = { ...DEFAULT_CONFIG };
+        try {
+            if (this.file) {
+                const fileConfig: unknown = JSON.parse(fs.readFileSync(this.file, "utf-8"));
+                if (
+                    typeof fileConfig !== "object" ||
+                    fileConfig === null ||
+                    Array.isArray(fileConfig)
+                ) {
+                    return err(
+                        new ConfigError(`Config file "${this.file}" must contain a JSON object`)
+                    );
+                }
+                // Editors use "$schema" to find a schema for the file; it isn't a setting
+                delete (fileConfig as Record<string, unknown>)["$schema"];
+                Object.assign(config, fileConfig);
+                // Paths to the system prompt are relative to the config file, so that profiles can be kept together
+                if (typeof config.systemPromptFile === "string") {
+                    config.systemPromptFile = path.resolve(
+                        path.dirname(this.file),
+                        config.systemPromptFile
+                    );
+                }
+            }
+        } catch (e) {
+            return err(
+                new ConfigError(`Failed to read config file "${this.file}"`, {
+                    cause: errorOrUndefined(e)
+                })
+            );
+        }
+
+        for (const [key, variable] of Object.entries(ENVIRONMENT_VARIABLES)) {
+            const value = this.environment[variable];
+            if (!value) {
+                continue;
+            }
+            const parsed = parseEnvironmentVariable(value, configSchema.properties[key].type);
+            if (parsed === undefined) {
+                return err(
+                    new ConfigError(`${variable} must be a ${configSchema.properties[key].type}`)
+                );
+            }
+            config[key] = parsed;
+        }
+
+        if (!validateConfig(config)) {
+            const problems = (validateConfig.errors ?? []).map((error) => {
+                const key = error.instancePath.slice(1) || error.params.additionalProperty;
+                return `${key} ${error.message}`;
+            });
+            return err(new ConfigError(`Invalid configuration: ${problems.join("; ")}`));
+        }
+        const problem = checkDependencies(config);
+        if (problem) {
+            return err(new ConfigError(`Invalid configuration: ${problem}`));
+        }
+        if (config.intervalMs < MIN_INTERVAL_MS) {
+            log.warn(
+                `intervalMs is ${config.intervalMs} ms; using the minimum of ${MIN_INTERVAL_MS} ms instead`
+            );
+            config.intervalMs = MIN_INTERVAL_MS;
+        }
+        for (const [name, persona] of Object.entries(config.personas)) {
+            if (persona.intervalMs != null && persona.intervalMs < MIN_INTERVAL_MS) {
+                log.warn(
+                    `intervalMs of persona "${name}" is ${persona.intervalMs} ms; using the minimum of ${MIN_INTERVAL_MS} ms instead`
+                );
+                persona.intervalMs = MIN_INTERVAL_MS;
+            }
+        }
+        if (config.systemPromptFile) {
+            try {
+                config.systemPrompt = fs.readFileSync(config.systemPromptFile, "utf-8").trim();
+            } catch (e) {
+                return err(
+                    new ConfigError(
+                        `Failed to read system prompt file "${config.systemPromptFile}"`,
+                        {
+                            cause: errorOrUndefined(e)
+                        }
+                    )
+                );
+            }
+        }
+        return ok(config);
+    }
+
+    private watchFiles() {
+        const files = [this.file, this.config.systemPromptFile].filter(
+            (file): file is string => file !== undefined
+        );
+        if (JSON.stringify(files) === JSON.stringify(this.watchedFiles)) {
+            return;
+        }
+        this.stopWatching();
+        for (const file of files) {
+            fs.watchFile(file, { interval: WATCH_INTERVAL_MS }, (current, previous) => {
+                if (current.mtimeMs === previous.mtimeMs) {
+                    return;
+                }
+                log.info(`${file} changed; reloading the configuration`);
+                const result = this.reload();
+                if (result.isErr()) {
+                    log.error(
+                        `${result.error.message}; keeping the current configuration`,
+                        result.error.cause
+                    );
+                } else if (result.value.length === 0) {
+                    log.info("The configuration didn't change");
+                }
+            });
+        }
+        this.watchedFiles = files;
+    }
+}
+
+/**
+ * Parse the value of an environment variable as the type of the setting it overrides.
+ * @returns `undefined` if the value isn't valid for the type
+ */
+function parseEnvironmentVariable(value: string, type: string): unknown {
+    switch (type) {
+        case "integer": {
+            const parsed = Number(value);
+            return Number.isInteger(parsed) ? parsed : undefined;
+        }
+        case "number": {
+            const parsed = Number(value);
+            return Number.isNaN(parsed) ? undefined : parsed;
+        }
+        case "boolean":
+            return value === "true" ? true : value === "false" ? false : undefined;
+        default:
+            return value;
+    }
+}
+
+/**
+ * Check settings that require other settings.
+ * @returns a description of the problem, or `undefined` if there is none
+ */
+function checkDependencies(config: JippityConfig): string | undefined {
+    const personas = availablePersonas(config);
+    const unknownPersona = [config.persona, ...Object.values(config.gamePersonas)].find(
+        (name) => !(name in personas)
+    );
+    if (unknownPersona !== undefined) {
+        return `there is no persona called "${unknownPersona}"`;
+    }
+    if (config.decisionProvider === "scripted" && !config.scriptFile) {
+        return 'scriptFile must be set to use the "scripted" decision provider';
+    }
+    if (config.decisionProvider === "replay" && !config.replayFile) {
+        return 'replayFile must be set to use the "replay" decision provider';
+    }
+    if (config.chatSource === "file" && !config.chatFile) {
+        return 'chatFile must be set to use the "file" chat source';
+    }
+    if (config.chatSource === "http" && !config.chatUrl) {
+        return 'chatUrl must be set to use the "http" chat source';
+    }
+    return undefined;
+}
@@ -0,0 +1,528 @@
+import fs from "node:fs";
+import path from "node:path";
+import {
+    ActionMessage,
+    findUnsupportedSchemaKeywords,
+    GracefulShutdownMessage,
+    ImmediateShutdownMessage,
+    isConventionalActionName,
+    Message,
+    MessageDeserializationError,
+    validateActionSchema
+} from "./api-types";
+import { log } from "./logging";
+
+/**
+ * The result of a single conformance check, or of a whole report.
+ * - `pass`: the game followed the Neuro API specification
+ * - `warn`: the game did something that works, but is discouraged or may not work with the real Neuro
+ * - `fail`: the game broke the Neuro API specification
+ */
+export type ConformanceStatus = "pass" | "warn" | "fail";
+
+interface ConformanceCheckDefinition {
+    description: string;
+    /** The status of the check if it is violated at least once */
+    severity: "warn" | "fail";
+}
+
+/**
+ * Everything the conformance tracker checks for.
+ */
+export const CONFORMANCE_CHECKS = {
+    "invalid-message": {
+        description: "Messages are valid JSON and match the schema for their command",
+        severity: "fail"
+    },
+    "message-before-startup": {
+        description: 'No messages are sent before the "startup" message',
+        severity: "fail"
+    },
+    "repeated-startup": {
+        description: '"startup" is only sent once, since it clears all registered actions',
+        severity: "warn"
+    },
+    "game-mismatch": {
+        description: 'The "game" of every message matches the game sent with "startup"',
+        severity: "fail"
+    },
+    "invalid-action-schema": {
+        description: "Registered action schemas are valid JSON schemas",
+        severity: "fail"
+    },
+    "duplicate-registration": {
+        description: "Actions are not registered when an action with the same name is registered",
+        severity: "warn"
+    },
+    "unknown-unregistration": {
+        description: "Only registered actions are unregistered",
+        severity: "warn"
+    },
+    "unsupported-schema-keyword": {
+        description: "Action schemas only use JSON schema keywords that Neuro supports",
+        severity: "warn"
+    },
+    "action-name-convention": {
+        description: "Action names are lowercase, with words separated by underscores or dashes",
+        severity: "warn"
+    },
+    "force-unknown-action": {
+        description: 'Every action in an "actions/force" message is registered',
+        severity: "fail"
+    },
+    "overlapping-force": {
+        description: 'A new "actions/force" message is not sent while another one is in progress',
+        severity: "fail"
+    },
+    "unknown-result-id": {
+        description:
+            'Every "action/result" message has the ID of an action that is waiting for a result',
+        severity: "fail"
+    },
+    "slow-result": {
+        description: 'Every "action/result" message is sent soon after the action is received',
+        severity: "warn"
+    },
+    "result-timeout": {
+        description:
+            'Every action gets an "action/result" message before Jippity stops waiting for it',
+        severity: "fail"
+    },
+    "late-result": {
+        description: 'No "action/result" message arrives after Jippity stopped waiting for it',
+        severity: "fail"
+    },
+    "unrequested-shutdown-ready": {
+        description: '"shutdown/ready" is only sent after the game was asked to shut down',
+        severity: "warn"
+    },
+    "shutdown-timeout": {
+        description: 'The game sends "shutdown/ready" in time after being asked to shut down',
+        severity: "fail"
+    }
+} satisfies Record<string, ConformanceCheckDefinition>;
+
+export type ConformanceCheckId = keyof typeof CONFORMANCE_CHECKS;
+
+/** The number of violations of each check that are included in reports as examples */
+const MAX_EXAMPLES = 5;
+
+export interface ConformanceCheckResult {
+    id: ConformanceCheckId;
+    description: string;
+    status: ConformanceStatus;
+    violations: number;
+    /** Descriptions of the first few violations */
+    examples: string[];
+}
+
+export interface ConformanceReport {
+    sessionId: string;
+    game: string | undefined;
+    startedAt: string;
+    endedAt: string;
+    status: ConformanceStatus;
+    /** The number of messages received from the game, by command */
+    messagesReceived: Record<string, number>;
+    /** Statistics about how long the game took to send action results, in milliseconds */
+    resultLatencyMs: { count: number; average: number | null; max: number | null };
+    checks: ConformanceCheckResult[];
+}
+
+/**
+ * Options for a {@link ConformanceTracker}.
+ */
+export interface ConformanceOptions {
+    /** Action results that take longer than this many milliseconds are reported as slow */
+    slowResultMs: number;
+    /** Whether results that arrive after their action timed out are violations */
+    lateResultsAreErrors: boolean;
+}
+
+/**
+ * Tracks whether a game follows the Neuro API specification over the course of a session.
+ *
+ * The tracker keeps its own view of the protocol (registered actions, actions waiting for results, etc.)
+ * based only on the messages sent and received, so it isn't affected by what Jippity's AI decides to do.
+ */
+export class ConformanceTracker {
+    private readonly sessionId: string;
+    private readonly options: ConformanceOptions;
+    private readonly startedAt = new Date();
+    private game: string | undefined = undefined;
+    private started = false;
+    private registeredActions = new Set<string>();
+    /** When each action waiting for a result was sent, by action ID */
+    private pendingActions = new Map<string, { sentAt: number; forced: boolean }>();
+    /** The IDs of actions that Jippity stopped waiting for before their result arrived */
+    private timedOutActions = new Set<string>();
+    private forceInProgress = false;
+    /** Whether the game has been asked to shut down and hasn't sent "shutdown/ready" yet */
+    private shutdownRequested = false;
+    private messagesReceived: Record<string, number> = {};
+    private resultLatencies: number[] = [];
+    private violations = new Map<ConformanceCheckId, string[]>();
+
+    /**
+     * @param sessionId the ID of the session being tracked
+     * @param options the options; these are read whenever they are needed, so getters can be used
+     */
+    constructor(sessionId: string, options: ConformanceOptions) {
+        this.sessionId = sessionId;
+        this.options = options;
+    }
+
+    /**
+     * Record a message from the game that could not be deserialized.
+     * @param error the deserialization error
+     */
+    public observeInvalidMessage(error: MessageDeserializationError) {
+        this.recordViolation(
+            "invalid-message",
+            error.cause ? `${error.message}: ${error.cause}` : error.message
+        );
+    }
+
+    /**
+     * Record a message from the game, as soon as it is received.
+     * @param message the message
+     */
+    public observeIncoming(message: Message) {
+        this.messagesReceived[message.command] = (this.messagesReceived[message.command] ?? 0) + 1;
+        if (message.command !== "startup" && !this.started) {
+            this.recordViolation(
+                "message-before-startup",
+                `Received "${message.command}" before "startup"`
+            );
+        }
+
+        if (
+            this.started &&
+            message.command !== "startup" &&
+            "game" in message &&
+            message.game !== this.game
+        ) {
+            this.recordViolation(
+                "game-mismatch",
+                `Received "${message.command}" for "${message.game}" in a session for "${this.game}"`
+            );
+            // The message isn't for this session, unless Jippity treats it as a new startup
+            return;
+        }
+        this.trackMessage(message);
+    }
+
+    /**
+     * Update the tracker's view of the protocol with a message from the game, checking it along the way.
+     */
+    private trackMessage(message: Message) {
+        switch (message.command) {
+            case "startup":
+                if (this.started) {
+                    this.recordViolation(
+                        "repeated-startup",
+                        `Received another "startup" for "${message.game}", which cleared ${this.registeredActions.size} registered actions`
+                    );
+                }
+                this.startGame(message.game);
+                break;
+            case "actions/register":
+                for (const action of message.data.actions) {
+                    if (this.registeredActions.has(action.name)) {
+                        this.recordViolation(
+                            "duplicate-registration",
+                            `Action "${action.name}" was registered while already registered; the new registration is ignored`
+                        );
+                        continue;
+                    }
+                    const schemaResult = validateActionSchema(action);
+                    if (schemaResult.isErr()) {
+                        this.recordViolation(
+                            "invalid-action-schema",
+                            `Action "${action.name}" has an invalid schema: ${schemaResult.error.cause}`
+                        );
+                        continue;
+                    }
+                    if (!isConventionalActionName(action.name)) {
+                        this.recordViolation(
+                            "action-name-convention",
+                            `Action name "${action.name}" should be lowercase, with words separated by underscores or dashes`
+                        );
+                    }
+                    for (const { keyword, pointer } of findUnsupportedSchemaKeywords(
+                        action.schema
+                    )) {
+                        this.recordViolation(
+                            "unsupported-schema-keyword",
+                            `Schema of action "${action.name}" uses "${keyword}" at "${pointer || "/"}", which the real Neuro doesn't support`
+                        );
+                    }
+                    this.registeredActions.add(action.name);
+                }
+                break;
+            case "actions/unregister":
+                for (const name of message.data.action_names) {
+                    if (!this.registeredActions.delete(name)) {
+                        this.recordViolation(
+                            "unknown-unregistration",
+                            `Action "${name}" was unregistered while not registered`
+                        );
+                    }
+                }
+                break;
+            case "actions/force": {
+                if (this.forceInProgress) {
+                    this.recordViolation(
+                        "overlapping-force",
+                        `Received "actions/force" for ${message.data.action_names} while another one was in progress`
+                    );
+                }
+                this.forceInProgress = true;
+                const unknownActions = message.data.action_names.filter(
+                    (name) => !this.registeredActions.has(name)
+                );
+                if (unknownActions.length > 0) {
+                    this.recordViolation(
+                        "force-unknown-action",
+                        `Received "actions/force" with unregistered actions: ${unknownActions}`
+                    );
+                }
+                break;
+            }
+            case "action/result": {
+                if (this.timedOutActions.delete(message.data.id)) {
+                    if (this.options.lateResultsAreErrors) {
+                        this.recordViolation(
+                            "late-result",
+                            `Result for action ID "${message.data.id}" arrived after it timed out`
+                        );
+                    }
+                    break;
+                }
+                const pendingAction = this.pendingActions.get(message.data.id);
+                if (!pendingAction) {
+                    this.recordViolation(
+                        "unknown-result-id",
+                        `Received "action/result" for unknown action ID "${message.data.id}"`
+                    );
+                    break;
+                }
+                this.pendingActions.delete(message.data.id);
+                const latency = Date.now() - pendingAction.sentAt;
+                this.resultLatencies.push(latency);
+                if (latency > this.options.slowResultMs) {
+                    this.recordViolation(
+                        "slow-result",
+                        `Result for action ID "${message.data.id}" took ${latency} ms`
+                    );
+                }
+                // An unsuccessful result means that the forced action will be retried
+                if (pendingAction.forced && message.data.success) {
+                    this.forceInProgress = false;
+                }
+                break;
+            }
+            case "shutdown/ready":
+                if (!this.shutdownRequested) {
+                    this.recordViolation(
+                        "unrequested-shutdown-ready",
+                        'Received "shutdown/ready" without being asked to shut down'
+                    );
+                }
+                this.shutdownRequested = false;
+                break;
+        }
+    }
+
+    /**
+     * Record an action sent to the game.
+     * @param action the action message
+     * @param forced whether the action was sent in response to an "actions/force" message
+     */
+    public observeOutgoing(action: ActionMessage, forced: boolean) {
+        this.pendingActions.set(action.data.id, { sentAt: Date.now(), forced });
+    }
+
+    /**
+     * Record that Jippity treated a message for another game as if the game had sent "startup" first.
+     * @param message the message, which was already observed
+     * @param game the game the message is for
+     */
+    public observeImplicitStartup(message: Message, game: string) {
+        this.startGame(game);
+        this.trackMessage(message);
+    }
+
+    /**
+     * Record that the game was asked to register all of its actions again, which forgets the actions it registered.
+     */
+    public observeReregisterAll() {
+        this.registeredActions.clear();
+    }
+
+    /**
+     * Record a request for the game to shut down, or a cancellation of one.
+     * @param message the shutdown message sent to the game
+     */
+    public observeShutdownRequest(message: GracefulShutdownMessage | ImmediateShutdownMessage) {
+        this.shutdownRequested =
+            message.command === "shutdown/immediate" || message.data.wants_shutdown;
+    }
+
+    /**
+     * Record that the game didn't send "shutdown/ready" in time.
+     * @param timeoutMs how long the game had to respond, in milliseconds
+     */
+    public observeShutdownTimeout(timeoutMs: number) {
+        this.recordViolation(
+            "shutdown-timeout",
+            `The game didn't send "shutdown/ready" within ${timeoutMs} ms of being asked to shut down`
+        );
+        this.shutdownRequested = false;
+    }
+
+    /**
+     * Record that Jippity stopped waiting for the result of an action.
+     * @param actionId the ID of the action
+     * @param timeoutMs how long Jippity waited, in milliseconds
+     */
+    public observeResultTimeout(actionId: string, timeoutMs: number) {
+        this.pendingActions.delete(actionId);
+        this.timedOutActions.add(actionId);
+        this.recordViolation(
+            "result-timeout",
+            `Action ID "${actionId}" didn't get a result within ${timeoutMs} ms`
+        );
+    }
+
+    /**
+     * Record that Jippity became idle, so that no forced action is in progress anymore
+     * (e.g. because Jippity gave up on it after too many retries).
+     */
+    public observeIdle() {
+        this.forceInProgress = false;
+    }
+
+    /**
+     * Build a report of every check.
+     */
+    public report(): ConformanceReport {
+        const checks = Object.entries(CONFORMANCE_CHECKS).map(([id, check]) => {
+            const violations = this.violations.get(id as ConformanceCheckId) ?? [];
+            const result: ConformanceCheckResult = {
+                id: id as ConformanceCheckId,
+                description: check.description,
+                status: violations.length > 0 ? check.severity : "pass",
+                violations: violations.length,
+                examples: violations.slice(0, MAX_EXAMPLES)
+            };
+            return result;
+        });
+        const latencies = this.resultLatencies;
+        return {
+            sessionId: this.sessionId,
+            game: this.game,
+            startedAt: this.startedAt.toISOString(),
+            endedAt: new Date().toISOString(),
+            status: worstStatus(checks.map((check) => check.status)),
+            messagesReceived: { ...this.messagesReceived },
+            resultLatencyMs: {
+                count: latencies.length,
+                average:
+                    latencies.length > 0
+                        ? Math.round(latencies.reduce((a, b) => a + b, 0) / latencies.length)
+                        : null,
+                max: latencies.length > 0 ? Math.max(...latencies) : null
+            },
+            checks
+        };
+    }
+
+    private startGame(game: string) {
+        this.started = true;
+        this.game = game;
+        this.registeredActions.clear();
+        this.forceInProgress = false;
+    }
+
+    private recordViolation(check: ConformanceCheckId, detail: string) {
+        const level = CONFORMANCE_CHECKS[check].severity === "fail" ? "error" : "warn";
+        log.log(level, `Conformance ${CONFORMANCE_CHECKS[check].severity} (${check}): ${detail}`);
+        const violations = this.violations.get(check) ?? [];
+        violations.push(detail);
+        this.violations.set(check, violations);
+    }
+}
+
+function worstStatus(statuses: ConformanceStatus[]): ConformanceStatus {
+    if (statuses.includes("fail")) {
+        return "fail";
+    }
+    if (statuses.includes("warn")) {
+        return "warn";
+    }
+    return "pass";
+}
+
+/**
+ * Render a conformance report as Markdown.
+ * @param report the report
+ */
+export function formatConformanceReport(report: ConformanceReport): string {
+    const icons: Record<ConformanceStatus, string> = { pass: "✅", warn: "⚠️", fail: "❌" };
+    const lines = [
+        `# Neuro API Conformance Report: ${report.game ?? "Unknown Game"}`,
+        "",
+        `**Result: ${icons[report.status]} ${report.status.toUpperCase()}**`,
+        "",
+        `- Session: ${report.sessionId}`,
+        `- Started: ${report.startedAt}`,
+        `- Ended: ${report.endedAt}`,
+        `- Action results: ${report.resultLatencyMs.count} (average ${report.resultLatencyMs.average ?? "-"} ms, max ${report.resultLatencyMs.max ?? "-"} ms)`,
+        "",
+        "## Messages Received",
+        "",
+        "| Command | Count |",
+        "|---------|-------|",
+        ...Object.entries(report.messagesReceived).map(
+            ([command, count]) => `| \`${command}\` | ${count} |`
+        ),
+        "",
+        "## Checks",
+        "",
+        "| Result | Check | Description | Violations |",
+        "|--------|-------|-------------|------------|",
+        ...report.checks.map(
+            (check) =>
+                `| ${icons[check.status]} ${check.status} | \`${check.id}\` | ${check.description} | ${check.violations} |`
+        )
+    ];
+    const violatedChecks = report.checks.filter((check) => check.violations > 0);
+    if (violatedChecks.length > 0) {
+        lines.push("", "## Violations");
+        for (const check of violatedChecks) {
+            lines.push("", `### \`${check.id}\``, "");
+            lines.push(...check.examples.map((example) => `- ${example}`));
+            if (check.violations > check.examples.length) {
+                lines.push(`- ...and ${check.violations - check.examples.length} more`);
+            }
+        }
+    }
+    return lines.join("\n") + "\n";
+}
+
+/**
+ * Write a conformance report to a directory as both JSON and Markdown.
+ * @param report the report
+ * @param directory the directory to write to; created if it doesn't exist
+ * @returns the path of the Markdown file
+ */
+export function writeConformanceReport(report: ConformanceReport, directory: string): string {
+    fs.mkdirSync(directory, { recursive: true });
+    const timestamp = report.endedAt.replace(/[:.]/g, "-");
+    const game = (report.game ?? "unknown-game").replace(/[^a-zA-Z0-9_-]+/g, "-");
+    const basePath = path.join(directory, `conformance-${game}-${report.sessionId}-${timestamp}`);
+    fs.writeFileSync(`${basePath}.json`, JSON.stringify(report, null, 2));
+    fs.writeFileSync(`${basePath}.md`, formatConformanceReport(report));
+    return `${basePath}.md`;
+}
@@ -0,0 +1,121 @@
+import assert from "node:assert";
+import { test } from "node:test";
+import { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { ConversationMemory } from "./conversation-memory";
+
+const systemMessage: ChatCompletionMessageParam = { role: "system", content: "You are Jippity" };
+
+function user(content: string): ChatCompletionMessageParam {
+    return { role: "user", content: content };
+}
+
+function toolCall(id: string): ChatCompletionMessageParam {
+    return {
+        role: "assistant",
+        content: null,
+        tool_calls: [{ id: id, type: "function", function: { name: "jump", arguments: "{}" } }]
+    };
+}
+
+function toolResult(id: string): ChatCompletionMessageParam {
+    return { role: "tool", tool_call_id: id, content: "Jumped" };
+}
+
+/** A message that uses about 100 tokens */
+function filler(label: string): ChatCompletionMessageParam {
+    return user(`${label} `.padEnd(400, "."));
+}
+
+test("a tool call and its result are removed together", async () => {
+    const memory = new ConversationMemory(systemMessage, { tokenBudget: 100, strategy: "drop" });
+    const call = toolCall("call_1");
+    const context = filler("Something happened while jumping");
+    const result = toolResult("call_1");
+    memory.push(call);
+    memory.push(context);
+    memory.push(result);
+    memory.push(user("What now?"));
+
+    await memory.compact();
+
+    const messages = memory.messages();
+    assert(!messages.includes(call));
+    assert(!messages.includes(result));
+    assert(!messages.includes(context));
+    assert.deepStrictEqual(messages, [systemMessage, user("What now?")]);
+});
+
+test("a tool call that hasn't been answered yet is never removed", async () => {
+    const memory = new ConversationMemory(systemMessage, { tokenBudget: 100, strategy: "drop" });
+    const call = toolCall("call_1");
+    memory.push(call);
+    memory.push(filler("Something happened while jumping"));
+
+    await memory.compact();
+
+    // The tool call and everything after it form the last group, which is always kept
+    assert.deepStrictEqual(memory.messages(), [
+        systemMessage,
+        call,
+        filler("Something happened while jumping")
+    ]);
+});
+
+test("the pinned game state is never removed", async () => {
+    const memory = new ConversationMemory(systemMessage, { tokenBudget: 200, strategy: "drop" });
+    const gameState = filler("The game state");
+    memory.pushGameState(gameState);
+    memory.push(filler("Old message 1"));
+    memory.push(filler("Old message 2"));
+    memory.push(user("What now?"));
+
+    await memory.compact();
+
+    assert.deepStrictEqual(memory.messages(), [systemMessage, gameState, user("What now?")]);
+});
+
+test("old messages are replaced with a summary", async () => {
+    const summarized: ChatCompletionMessageParam[] = [];
+    const memory = new ConversationMemory(systemMessage, {
+        tokenBudget: 100,
+        strategy: "summarize",
+        summarize: async (messages) => {
+            summarized.push(...messages);
+            return "Some things happened";
+        }
+    });
+    const old1 = filler("Old message 1");
+    const old2 = filler("Old message 2");
+    memory.push(old1);
+    memory.push(old2);
+    memory.push(user("What now?"));
+
+    await memory.compact();
+
+    assert.deepStrictEqual(summarized, [old1, old2]);
+    assert.deepStrictEqual(memory.messages(), [
+        systemMessage,
+        {
+            role: "system",
+            content: "Summary of what happened earlier in the stream: Some things happened"
+        },
+        user("What now?")
+    ]);
+});
+
+test("old messages are dropped if they can't be summarized", async () => {
+    const memory = new ConversationMemory(systemMessage, {
+        tokenBudget: 100,
+        strategy: "summarize",
+        summarize: async () => {
+            throw new Error("The model is unavailable");
+        }
+    });
+    memory.push(filler("Old message 1"));
+    memory.push(filler("Old message 2"));
+    memory.push(user("What now?"));
+
+    await memory.compact();
+
+    assert.deepStrictEqual(memory.messages(), [systemMessage, user("What now?")]);
+});
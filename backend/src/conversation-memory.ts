@@ -0,0 +1,263 @@
+import { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { log } from "./logging";
+import { errorOrUndefined } from "./utils";
+
+/**
+ * Summarizes a list of messages into a short plaintext paragraph.
+ *
+ * The previous summary (if any) is passed in so that it can be folded into the new one.
+ */
+export type Summarizer = (
+    messages: ChatCompletionMessageParam[],
+    previousSummary: string | undefined
+) => Promise<string>;
+
+export interface ConversationMemoryOptions {
+    /** The maximum estimated number of tokens sent to the model in a single request */
+    tokenBudget: number;
+    /**
+     * What to do with old messages once the budget is reached.
+     * - `summarize`: replace them with a summary generated by the model (falls back to `drop` on failure)
+     * - `drop`: forget them entirely
+     */
+    strategy: "summarize" | "drop";
+    /** Used when `strategy` is `summarize` */
+    summarize?: Summarizer;
+}
+
+/**
+ * A group of messages that must be kept or removed together.
+ *
+ * An assistant message with tool calls is always grouped with the `tool` messages that answer it,
+ * because the OpenAI API rejects requests where one is present without the other.
+ */
+type MessageGroup = ChatCompletionMessageParam[];
+
+/** After compacting, the history is reduced to this fraction of the token budget */
+const COMPACTION_TARGET_RATIO = 0.75;
+
+/**
+ * Roughly estimate the number of tokens a message will use.
+ *
+ * This uses the common rule of thumb of ~4 characters per token, plus a small per-message overhead.
+ * It doesn't need to be exact; it just needs to keep requests comfortably below the model's context window.
+ */
+export function estimateTokens(message: ChatCompletionMessageParam): number {
+    let characters = 0;
+    if (typeof message.content === "string") {
+        characters += message.content.length;
+    } else if (Array.isArray(message.content)) {
+        for (const part of message.content) {
+            characters += "text" in part ? part.text.length : JSON.stringify(part).length;
+        }
+    }
+    if (message.role === "assistant" && message.tool_calls) {
+        characters += JSON.stringify(message.tool_calls).length;
+    }
+    return Math.ceil(characters / 4) + 4;
+}
+
+/**
+ * Render messages as a plaintext transcript, for use in summarization prompts.
+ */
+export function formatTranscript(messages: ChatCompletionMessageParam[]): string {
+    const lines: string[] = [];
+    for (const message of messages) {
+        const content =
+            typeof message.content === "string"
+                ? message.content
+                : (message.content ?? []).map((part) => ("text" in part ? part.text : "")).join("");
+        if (message.role === "assistant" && message.tool_calls) {
+            for (const toolCall of message.tool_calls) {
+                lines.push(
+                    `assistant called ${toolCall.function.name} with ${toolCall.function.arguments}`
+                );
+            }
+        }
+        if (content) {
+            lines.push(`${message.role}: ${content}`);
+        }
+    }
+    return lines.join("\n");
+}
+
+/**
+ * The conversation history sent to the model.
+ *
+ * The system message and the latest game state are pinned and are never removed.
+ * Once the estimated size of the history exceeds the token budget, the oldest messages are summarized or dropped.
+ */
+export class ConversationMemory {
+    private systemMessage: ChatCompletionMessageParam;
+    private options: ConversationMemoryOptions;
+    private history: ChatCompletionMessageParam[] = [];
+    private summary: string | undefined = undefined;
+    private pinnedGameState: ChatCompletionMessageParam | undefined = undefined;
+
+    constructor(systemMessage: ChatCompletionMessageParam, options: ConversationMemoryOptions) {
+        this.systemMessage = systemMessage;
+        this.options = options;
+    }
+
+    /**
+     * Return the messages that should be sent to the model, in order.
+     */
+    public messages(): ChatCompletionMessageParam[] {
+        const messages: ChatCompletionMessageParam[] = [this.systemMessage];
+        if (this.summary) {
+            messages.push({
+                role: "system",
+                content: `Summary of what happened earlier in the stream: ${this.summary}`
+            });
+        }
+        messages.push(...this.history);
+        return messages;
+    }
+
+    /**
+     * Replace the system message, e.g. after the system prompt was changed in the configuration.
+     * @param systemMessage the new system message
+     */
+    public setSystemMessage(systemMessage: ChatCompletionMessageParam) {
+        this.systemMessage = systemMessage;
+    }
+
+    /**
+     * Change the token budget and what happens once it is reached; takes effect the next time the history is compacted.
+     * @param options the options to change
+     */
+    public configure(
+        options: Partial<Pick<ConversationMemoryOptions, "tokenBudget" | "strategy">>
+    ) {
+        this.options = { ...this.options, ...options };
+    }
+
+    /**
+     * Add a message to the end of the history.
+     * @param message the message to add
+     */
+    public push(message: ChatCompletionMessageParam) {
+        this.history.push(message);
+    }
+
+    /**
+     * Remove every message apart from the system message, including the summary and the pinned game state.
+     */
+    public clear() {
+        this.history = [];
+        this.summary = undefined;
+        this.pinnedGameState = undefined;
+    }
+
+    /**
+     * Add a message describing the state of the game to the end of the history.
+     *
+     * This message replaces the previously pinned game state, and won't be removed during compaction.
+     * @param message the message to add
+     */
+    public pushGameState(message: ChatCompletionMessageParam) {
+        this.history.push(message);
+        this.pinnedGameState = message;
+    }
+
+    /**
+     * Replace a message in the history with a different one, keeping its position.
+     *
+     * If the replaced message was the pinned game state, the new message becomes the pinned game state.
+     * @param oldMessage the message to replace
+     * @param newMessage the message to replace it with
+     * @returns `false` if the old message is no longer in the history (e.g. it was removed during compaction)
+     */
+    public replace(
+        oldMessage: ChatCompletionMessageParam,
+        newMessage: ChatCompletionMessageParam
+    ): boolean {
+        const index = this.history.indexOf(oldMessage);
+        if (index === -1) {
+            return false;
+        }
+        this.history[index] = newMessage;
+        if (this.pinnedGameState === oldMessage) {
+            this.pinnedGameState = newMessage;
+        }
+        return true;
+    }
+
+    /**
+     * Return the estimated number of tokens used by {@link messages}.
+     */
+    public estimatedTokens(): number {
+        return this.messages().reduce((total, message) => total + estimateTokens(message), 0);
+    }
+
+    /**
+     * Remove or summarize the oldest messages if the history is over the token budget.
+     *
+     * The most recent group of messages is always kept.
+     */
+    public async compact(): Promise<void> {
+        const tokensBefore = this.estimatedTokens();
+        if (tokensBefore <= this.options.tokenBudget) {
+            return;
+        }
+
+        const targetTokens = this.options.tokenBudget * COMPACTION_TARGET_RATIO;
+        const groups = this.groupHistory();
+        const removed: ChatCompletionMessageParam[] = [];
+        let tokens = tokensBefore;
+        // Never remove the last group; it's what the model is about to respond to
+        for (let i = 0; i < groups.length - 1 && tokens > targetTokens; i++) {
+            const group = groups[i];
+            if (this.pinnedGameState && group.includes(this.pinnedGameState)) {
+                continue;
+            }
+            removed.push(...group);
+            groups[i] = [];
+            tokens -= group.reduce((total, message) => total + estimateTokens(message), 0);
+        }
+        if (removed.length === 0) {
+            log.warn(
+                `Conversation history is over the token budget (~${tokensBefore} of ${this.options.tokenBudget} tokens), but there is nothing that can be removed`
+            );
+            return;
+        }
+        this.history = groups.flat();
+
+        if (this.options.strategy === "summarize" && this.options.summarize) {
+            try {
+                this.summary = await this.options.summarize(removed, this.summary);
+            } catch (e) {
+                log.warn(
+                    `Failed to summarize ${removed.length} old messages; they will be dropped instead`,
+                    errorOrUndefined(e)
+                );
+            }
+        }
+        log.info(
+            `Compacted conversation history from ~${tokensBefore} to ~${this.estimatedTokens()} tokens by removing ${removed.length} messages`
+        );
+    }
+
+    /**
+     * Split the history into groups that can be safely removed independently of each other.
+     */
+    private groupHistory(): MessageGroup[] {
+        const groups: MessageGroup[] = [];
+        // IDs of tool calls that haven't been answered by a tool message yet
+        const openToolCallIds = new Set<string>();
+        for (const message of this.history) {
+            if (openToolCallIds.size > 0) {
+                // Everything up to the last tool result belongs to the assistant message that made the tool calls
+                groups[groups.length - 1].push(message);
+            } else {
+                groups.push([message]);
+            }
+            if (message.role === "assistant" && message.tool_calls) {
+                message.tool_calls.forEach((toolCall) => openToolCallIds.add(toolCall.id));
+            } else if (message.role === "tool") {
+                openToolCallIds.delete(message.tool_call_id);
+            }
+        }
+        return groups;
+    }
+}
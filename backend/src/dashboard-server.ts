@@ -0,0 +1,487 @@
+import http from "node:http";
+import fs from "node:fs";
+import path from "node:path";
+import { RawData, WebSocket, WebSocketServer } from "ws";
+import { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { Action, Message } from "./api-types";
+import { JippityHandler } from "./jippity-handler";
+import { ShutdownRequest, State } from "./jippity-types";
+import { log } from "./logging";
+import { SessionManager } from "./session-manager";
+
+/** The directory containing the dashboard's HTML, CSS, and JavaScript */
+const FRONTEND_DIR = path.join(__dirname, "..", "..", "frontend");
+
+/** The files that are served to the browser, by URL path */
+const STATIC_FILES: Record<string, { file: string; contentType: string }> = {
+    "/": { file: "index.html", contentType: "text/html; charset=utf-8" },
+    "/dashboard.js": { file: "dashboard.js", contentType: "text/javascript; charset=utf-8" },
+    "/dashboard.css": { file: "dashboard.css", contentType: "text/css; charset=utf-8" }
+};
+
+/**
+ * Everything the dashboard shows about a session.
+ */
+export interface SessionSnapshot {
+    sessionId: string;
+    game: string | undefined;
+    /** The name of the persona Jippity is playing as */
+    persona: string;
+    state: State;
+    paused: boolean;
+    operatorMode: boolean;
+    /** The request for the game to shut down that it hasn't responded to yet, if any */
+    shutdownRequest: ShutdownRequest | undefined;
+    actions: Action[];
+    queue: Message[];
+    transcript: ChatCompletionMessageParam[];
+}
+
+/**
+ * Messages sent from the backend to the dashboard.
+ */
+export type DashboardUpdate =
+    | { type: "snapshot"; sessions: SessionSnapshot[] }
+    | { type: "session"; session: SessionSnapshot }
+    | { type: "session-closed"; sessionId: string }
+    | {
+          type: "traffic";
+          sessionId: string;
+          direction: "received" | "sent";
+          time: string;
+          /** The message exactly as it was received or sent */
+          data: string;
+      }
+    | { type: "error"; message: string };
+
+/**
+ * Messages sent from the dashboard to the backend.
+ */
+export type DashboardCommand =
+    | {
+          command:
+              | "pause"
+              | "resume"
+              | "trigger-turn"
+              | "clear-history"
+              | "disconnect"
+              | "take-over"
+              | "hand-back"
+              | "reregister-all"
+              | "shutdown-immediate";
+          sessionId: string;
+      }
+    /** Ask the game to shut down gracefully, or cancel the request if `wantsShutdown` is `false` */
+    | { command: "shutdown-graceful"; sessionId: string; wantsShutdown: boolean }
+    /** Send an action written by the operator; `data` is sent as-is */
+    | { command: "send-action"; sessionId: string; name: string; data?: string; id?: string }
+    /** Add a `user` message written by the operator to the conversation history */
+    | { command: "inject-message"; sessionId: string; content: string };
+
+/**
+ * Serves the web dashboard, and streams live updates about every session to it over a WebSocket.
+ *
+ * The dashboard can also control sessions: pause and resume Jippity, trigger a turn, clear the conversation history,
+ * and disconnect the game.
+ * It is also the operator's control channel, for taking over from the AI and sending actions and messages by hand,
+ * and for sending the proposed `actions/reregister_all` and shutdown commands to the game.
+ * If text-to-speech is enabled, the audio of what Jippity is currently saying is served at `/speech/current.wav`.
+ */
+export class DashboardServer {
+    private readonly sessionManager: SessionManager;
+    private readonly server: http.Server;
+    private readonly wss: WebSocketServer;
+    /** Sessions with changes that haven't been sent to the dashboard yet */
+    private readonly dirtySessions = new Set<JippityHandler>();
+    private flushScheduled = false;
+    /** The port the dashboard is served on, once it is listening */
+    private port: number | undefined = undefined;
+
+    constructor(sessionManager: SessionManager) {
+        this.sessionManager = sessionManager;
+        this.server = http.createServer((req, res) => this.handleRequest(req, res));
+        this.wss = new WebSocketServer({
+            server: this.server,
+            path: "/ws",
+            verifyClient: (info: { origin: string | undefined; req: http.IncomingMessage }) =>
+                this.verifyOrigin(info.origin, info.req)
+        });
+        this.wss.on("connection", (ws) => this.handleConnection(ws));
+        // Errors from the HTTP server are emitted here too; listen() reports the ones before it is listening
+        this.wss.on("error", (error) => {
+            if (this.port !== undefined) {
+                log.error("Dashboard server error", error);
+            }
+        });
+
+        sessionManager.allSessions().forEach((handler) => this.watchSession(handler));
+        sessionManager.on("sessionCreated", (handler) => this.watchSession(handler));
+        sessionManager.on("sessionClosed", (handler) => {
+            this.dirtySessions.delete(handler);
+            this.broadcast({ type: "session-closed", sessionId: handler.sessionId });
+        });
+    }
+
+    /**
+     * Start serving the dashboard, on the loopback interface only.
+     * @param port the port to listen on
+     * @returns a promise that is rejected if the server can't listen, e.g. because the port is already in use
+     */
+    public listen(port: number): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.server.once("error", reject);
+            this.server.listen(port, "127.0.0.1", () => {
+                this.server.off("error", reject);
+                this.port = port;
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Only allow requests addressed to this machine, so that other web pages can't reach the dashboard
+     * through a domain name that points at 127.0.0.1 (DNS rebinding).
+     * @param req the request
+     */
+    private verifyHost(req: http.IncomingMessage): boolean {
+        const allowedHosts = ["localhost", "127.0.0.1", "[::1]"].map(
+            (host) => `${host}:${this.port}`
+        );
+        if (this.port === undefined || !allowedHosts.includes(req.headers.host ?? "")) {
+            log.warn(`Refused a dashboard request for host ${req.headers.host}`);
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Only allow the dashboard's own page to connect, so that other web pages can't control Jippity.
+     * @param origin the `Origin` header of the connection
+     * @param req the upgrade request
+     */
+    private verifyOrigin(origin: string | undefined, req: http.IncomingMessage): boolean {
+        if (!this.verifyHost(req)) {
+            return false;
+        }
+        if (origin !== `http://${req.headers.host}`) {
+            log.warn(`Refused a dashboard connection from ${origin ?? "an unknown origin"}`);
+            return false;
+        }
+        return true;
+    }
+
+    private handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+        if (!this.verifyHost(req)) {
+            res.writeHead(403, { "Content-Type": "text/plain" });
+            res.end("Forbidden");
+            return;
+        }
+        const url = new URL(req.url ?? "/", "http://localhost");
+        if (req.method === "GET" && url.pathname === "/speech/current.wav") {
+            this.serveCurrentUtterance(url.searchParams.get("session"), res);
+            return;
+        }
+        this.serveStaticFile(req, url, res);
+    }
+
+    /**
+     * Serve the audio of what Jippity is currently saying in a session.
+     *
+     * The `X-Utterance-Timestamp` header says when he started saying it.
+     * @param sessionId the ID of the session; if `null`, the session that most recently started talking
+     * @param res the response
+     */
+    private serveCurrentUtterance(sessionId: string | null, res: http.ServerResponse) {
+        const utterances = this.sessionManager
+            .allSessions()
+            .filter((handler) => sessionId === null || handler.sessionId === sessionId)
+            .flatMap((handler) =>
+                handler.state.id === "state/talking" && handler.state.utterance
+                    ? [handler.state.utterance]
+                    : []
+            )
+            .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+        const utterance = utterances[0];
+        if (!utterance) {
+            res.writeHead(404, { "Content-Type": "text/plain" });
+            res.end("Jippity isn't saying anything right now");
+            return;
+        }
+        const stream = fs.createReadStream(utterance.file);
+        stream.on("open", () => {
+            res.writeHead(200, {
+                "Content-Type": "audio/wav",
+                "Cache-Control": "no-store",
+                "X-Utterance-Timestamp": utterance.timestamp
+            });
+            stream.pipe(res);
+        });
+        stream.on("error", (err) => {
+            log.error(`Failed to read speech file ${utterance.file}`, err);
+            res.writeHead(500, { "Content-Type": "text/plain" });
+            res.end("Failed to read file");
+        });
+    }
+
+    private serveStaticFile(req: http.IncomingMessage, url: URL, res: http.ServerResponse) {
+        const staticFile = STATIC_FILES[url.pathname];
+        if (req.method !== "GET" || !staticFile) {
+            res.writeHead(404, { "Content-Type": "text/plain" });
+            res.end("Not found");
+            return;
+        }
+        fs.readFile(path.join(FRONTEND_DIR, staticFile.file), (err, content) => {
+            if (err) {
+                log.error(`Failed to read dashboard file ${staticFile.file}`, err);
+                res.writeHead(500, { "Content-Type": "text/plain" });
+                res.end("Failed to read file");
+                return;
+            }
+            res.writeHead(200, { "Content-Type": staticFile.contentType });
+            res.end(content);
+        });
+    }
+
+    private handleConnection(ws: WebSocket) {
+        log.info("Dashboard connected");
+        sendUpdate(ws, {
+            type: "snapshot",
+            sessions: this.sessionManager.allSessions().map(snapshotSession)
+        });
+        ws.on("message", (data) => this.handleCommand(ws, data));
+    }
+
+    private handleCommand(ws: WebSocket, data: RawData) {
+        let command: unknown;
+        try {
+            command = JSON.parse(data.toString());
+        } catch {
+            this.sendError(ws, "Commands must be valid JSON");
+            return;
+        }
+        if (!isDashboardCommand(command)) {
+            this.sendError(ws, 'Commands must be objects with a "sessionId" and a "command"');
+            return;
+        }
+        try {
+            this.runCommand(ws, command);
+        } catch (e) {
+            log.error(`Failed to run dashboard command "${command.command}"`, e);
+            this.sendError(ws, `Failed to run command "${command.command}"`);
+        }
+    }
+
+    private runCommand(ws: WebSocket, command: DashboardCommand) {
+        const handler = this.sessionManager.getSessionById(command.sessionId);
+        if (!handler) {
+            this.sendError(ws, `Unknown session "${command.sessionId}"`);
+            return;
+        }
+        log.info(`Dashboard command "${command.command}" for ${handler.sessionId}`);
+        switch (command.command) {
+            case "pause":
+                handler.setPaused(true);
+                break;
+            case "resume":
+                handler.setPaused(false);
+                break;
+            case "trigger-turn":
+                if (handler.operatorMode) {
+                    this.sendError(ws, "Hand control back to the AI before triggering a turn");
+                    return;
+                }
+                if (handler.state.id !== "state/idle") {
+                    this.sendError(
+                        ws,
+                        `Jippity can only take a turn while idle (current state is ${handler.state.id})`
+                    );
+                    return;
+                }
+                handler.callOpenAI();
+                break;
+            case "clear-history":
+                if (!handler.clearHistory()) {
+                    this.sendError(
+                        ws,
+                        `The history can only be cleared while Jippity is idle (current state is ${handler.state.id})`
+                    );
+                    return;
+                }
+                this.markDirty(handler);
+                break;
+            case "disconnect":
+                this.sessionManager.disconnect(handler.sessionId);
+                break;
+            case "take-over":
+                handler.setOperatorMode(true);
+                break;
+            case "hand-back":
+                handler.setOperatorMode(false);
+                break;
+            case "reregister-all": {
+                const problem = handler.requestReregistration();
+                if (problem) {
+                    this.sendError(ws, problem);
+                    return;
+                }
+                this.markDirty(handler);
+                break;
+            }
+            case "shutdown-graceful": {
+                const problem = handler.requestGracefulShutdown(command.wantsShutdown !== false);
+                if (problem) {
+                    this.sendError(ws, problem);
+                }
+                break;
+            }
+            case "shutdown-immediate": {
+                const problem = handler.requestImmediateShutdown();
+                if (problem) {
+                    this.sendError(ws, problem);
+                }
+                break;
+            }
+            case "send-action": {
+                if (typeof command.name !== "string" || command.name.length === 0) {
+                    this.sendError(ws, "Actions must have a name");
+                    return;
+                }
+                if (!isOptionalString(command.data) || !isOptionalString(command.id)) {
+                    this.sendError(ws, "The data and ID of an action must be strings");
+                    return;
+                }
+                const problem = handler.sendOperatorAction(
+                    command.name,
+                    command.data || undefined,
+                    command.id || undefined
+                );
+                if (problem) {
+                    this.sendError(ws, problem);
+                }
+                break;
+            }
+            case "inject-message": {
+                if (typeof command.content !== "string") {
+                    this.sendError(ws, "Messages must have content");
+                    return;
+                }
+                const problem = handler.injectMessage(command.content);
+                if (problem) {
+                    this.sendError(ws, problem);
+                    return;
+                }
+                this.markDirty(handler);
+                break;
+            }
+            default:
+                this.sendError(
+                    ws,
+                    `Unknown command "${(command as { command: unknown }).command}"`
+                );
+        }
+    }
+
+    private sendError(ws: WebSocket, message: string) {
+        sendUpdate(ws, { type: "error", message: message });
+    }
+
+    private watchSession(handler: JippityHandler) {
+        const markDirty = () => this.markDirty(handler);
+        handler.on("stateChange", markDirty);
+        handler.on("messageQueued", markDirty);
+        handler.on("pausedChange", markDirty);
+        handler.on("operatorModeChange", markDirty);
+        handler.on("shutdownChange", markDirty);
+        handler.on("decisionReceived", markDirty);
+        handler.on("messageReceived", (data) => {
+            this.broadcastTraffic(handler, "received", data);
+            markDirty();
+        });
+        handler.on("messageSent", (message) => {
+            this.broadcastTraffic(handler, "sent", JSON.stringify(message));
+            markDirty();
+        });
+        markDirty();
+    }
+
+    private broadcastTraffic(
+        handler: JippityHandler,
+        direction: "received" | "sent",
+        data: string
+    ) {
+        this.broadcast({
+            type: "traffic",
+            sessionId: handler.sessionId,
+            direction,
+            time: new Date().toISOString(),
+            data
+        });
+    }
+
+    /**
+     * Send a session's snapshot to the dashboard soon; several changes in a row only result in one update.
+     * @param handler the session that changed
+     */
+    private markDirty(handler: JippityHandler) {
+        this.dirtySessions.add(handler);
+        if (this.flushScheduled) {
+            return;
+        }
+        this.flushScheduled = true;
+        setImmediate(() => {
+            this.flushScheduled = false;
+            for (const dirtyHandler of this.dirtySessions) {
+                this.broadcast({ type: "session", session: snapshotSession(dirtyHandler) });
+            }
+            this.dirtySessions.clear();
+        });
+    }
+
+    private broadcast(update: DashboardUpdate) {
+        this.wss.clients.forEach((ws) => sendUpdate(ws, update));
+    }
+}
+
+/**
+ * Check that a parsed command has the fields every dashboard command has.
+ *
+ * The fields specific to each command are checked when it is run.
+ * @param value the parsed JSON
+ */
+function isDashboardCommand(value: unknown): value is DashboardCommand {
+    return (
+        typeof value === "object" &&
+        value !== null &&
+        typeof (value as { sessionId?: unknown }).sessionId === "string" &&
+        typeof (value as { command?: unknown }).command === "string"
+    );
+}
+
+/**
+ * Return whether a field of a command is a string or missing.
+ * @param value the value of the field
+ */
+function isOptionalString(value: unknown): value is string | undefined {
+    return value === undefined || typeof value === "string";
+}
+
+function snapshotSession(handler: JippityHandler): SessionSnapshot {
+    return {
+        sessionId: handler.sessionId,
+        game: handler.game,
+        persona: handler.personaName,
+        state: handler.state,
+        paused: handler.paused,
+        operatorMode: handler.operatorMode,
+        shutdownRequest: handler.shutdownRequest,
+        actions: handler.actions,
+        queue: handler.messageQueue.toArray(),
+        transcript: handler.openaiMessages.messages()
+    };
+}
+
+function sendUpdate(ws: WebSocket, update: DashboardUpdate) {
+    if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify(update));
+    }
+}
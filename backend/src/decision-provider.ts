@@ -0,0 +1,92 @@
+import { ChatCompletion } from "openai/resources/chat/completions";
+import { ChatCompletionCreateParamsNonStreaming } from "openai/src/resources/chat/completions";
+
+/**
+ * A chat completion returned by a {@link DecisionProvider}.
+ *
+ * Responses from the OpenAI API include the ID of the request, which is useful for debugging.
+ */
+export type DecisionResponse = ChatCompletion & { _request_id?: string | null };
+
+/**
+ * Something that decides what Jippity says and does.
+ *
+ * Decision providers use the same request and response format as the OpenAI chat completions API,
+ * so that the rest of Jippity doesn't need to care whether a real model is being used.
+ */
+export interface DecisionProvider {
+    /** A short name for this provider, used in log messages */
+    readonly name: string;
+
+    /**
+     * Decide how to respond to a conversation.
+     * @param body the request that would be sent to the OpenAI chat completions API
+     */
+    createChatCompletion(body: ChatCompletionCreateParamsNonStreaming): Promise<DecisionResponse>;
+}
+
+/**
+ * A tool call made by a {@link DecisionProvider} that doesn't use a real model.
+ */
+export interface SimulatedToolCall {
+    id: string;
+    name: string;
+    /** The JSON-stringified arguments; not necessarily valid JSON */
+    arguments: string;
+}
+
+/**
+ * Build a chat completion where the model responds with text.
+ * @param model the model that was requested
+ * @param content the text of the response
+ */
+export function textCompletion(model: string, content: string): DecisionResponse {
+    return {
+        id: `chatcmpl-simulated-${Date.now()}`,
+        object: "chat.completion",
+        created: Math.floor(Date.now() / 1000),
+        model: model,
+        choices: [
+            {
+                index: 0,
+                finish_reason: "stop",
+                logprobs: null,
+                message: { role: "assistant", content: content, refusal: null }
+            }
+        ]
+    };
+}
+
+/**
+ * Build a chat completion where the model responds with one or more tool calls.
+ * @param model the model that was requested
+ * @param toolCalls the tool calls made by the model
+ */
+export function toolCallCompletion(
+    model: string,
+    toolCalls: SimulatedToolCall[]
+): DecisionResponse {
+    return {
+        id: `chatcmpl-simulated-${Date.now()}`,
+        object: "chat.completion",
+        created: Math.floor(Date.now() / 1000),
+        model: model,
+        choices: [
+            {
+                index: 0,
+                finish_reason: "tool_calls",
+                logprobs: null,
+                message: {
+                    role: "assistant",
+                    content: null,
+                    refusal: null,
+                    tool_calls: toolCalls.map((toolCall) => ({
+                        id: toolCall.id,
+                        type: "function",
+                        function: { name: toolCall.name, arguments: toolCall.arguments }
+                    }))
+                }
+            }
+        ]
+    };
+}
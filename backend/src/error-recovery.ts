@@ -0,0 +1,83 @@
+import OpenAI from "openai";
+
+/**
+ * How Jippity should recover from a failed call to the decision provider.
+ * - `retry`: the problem is probably temporary (rate limits, server errors, connection problems), so try again after a delay
+ * - `skip`: trying again won't help (e.g. a bad request or an invalid API key), so give up on this turn
+ */
+export type DecisionErrorClass = "retry" | "skip";
+
+/**
+ * Classify an error thrown while calling the decision provider.
+ * @param error the error
+ */
+export function classifyDecisionError(error: unknown): DecisionErrorClass {
+    if (error instanceof OpenAI.APIConnectionError) {
+        return "retry";
+    }
+    if (error instanceof OpenAI.APIError) {
+        const status = error.status ?? 0;
+        if (status === 408 || status === 409 || status === 429 || status >= 500) {
+            return "retry";
+        }
+    }
+    return "skip";
+}
+
+/** The delay before the first retry */
+const BACKOFF_BASE_MS = 1_000;
+/** The longest delay between retries */
+const BACKOFF_MAX_MS = 30_000;
+
+/**
+ * Return how long to wait before retrying, using exponential backoff with jitter.
+ * @param consecutiveFailures the number of calls that have failed in a row, starting at 1
+ */
+export function backoffDelayMs(consecutiveFailures: number): number {
+    const exponential = BACKOFF_BASE_MS * 2 ** Math.max(consecutiveFailures - 1, 0);
+    const jitter = Math.random() * BACKOFF_BASE_MS;
+    return Math.min(exponential, BACKOFF_MAX_MS) + jitter;
+}
+
+/**
+ * Stops Jippity from calling a decision provider that keeps failing.
+ *
+ * After `threshold` failures in a row, the circuit "opens" for `cooldownMs` milliseconds.
+ * Once the cooldown has passed, the next call is allowed through; if it succeeds, the circuit closes again.
+ */
+export class CircuitBreaker {
+    private readonly threshold: number;
+    private readonly cooldownMs: number;
+    private consecutiveFailures = 0;
+
+    constructor(threshold: number, cooldownMs: number) {
+        this.threshold = threshold;
+        this.cooldownMs = cooldownMs;
+    }
+
+    /**
+     * Return the number of calls that have failed in a row.
+     */
+    public failureCount(): number {
+        return this.consecutiveFailures;
+    }
+
+    /**
+     * Record a successful call, closing the circuit.
+     */
+    public recordSuccess() {
+        this.consecutiveFailures = 0;
+    }
+
+    /**
+     * Record a failed call.
+     * @returns the time (as returned by `Date.now()`) until which the circuit is open, or `undefined` if it's closed
+     */
+    public recordFailure(): number | undefined {
+        this.consecutiveFailures++;
+        if (this.consecutiveFailures >= this.threshold) {
+            return Date.now() + this.cooldownMs;
+        }
+        return undefined;
+    }
+}
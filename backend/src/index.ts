@@ -1,66 +1,194 @@
 // Load environment variables from .env file
 import "dotenv/config";
 
-import { RawData, WebSocket, WebSocketServer } from "ws";
+import { RawData, WebSocketServer } from "ws";
 import util from "util";
-import assert from "node:assert";
-import { Message } from "./api-types";
+import fs from "node:fs";
 import OpenAI from "openai";
 import { log } from "./logging";
 import { ChatCompletionMessageParam } from "openai/resources/chat/completions";
-import { JippityHandler } from "./jippity-handler";
+import { SessionManager } from "./session-manager";
+import { DashboardServer } from "./dashboard-server";
+import assert from "node:assert";
+import { DecisionProvider } from "./decision-provider";
+import { OpenAIDecisionProvider } from "./openai-provider";
+import { RandyDecisionProvider } from "./randy-provider";
+import { ScriptedDecisionProvider } from "./scripted-provider";
+import { ReplayDecisionProvider } from "./replay-provider";
+import { ConfigManager, DEFAULT_CONFIG_FILE, RESTART_REQUIRED } from "./config";
+import { createSeededRandom } from "./utils";
+import { TextToSpeech } from "./text-to-speech";
+import {
+    ChatSimulatorOptions,
+    ChatSource,
+    DEFAULT_PERSONAS,
+    FileChatSource,
+    GeneratorChatSource,
+    HttpChatSource
+} from "./chat-simulator";
 
-import { sleep } from "./utils";
+// *****************
+// * Configuration *
+// *****************
+// Settings are read from the config file, and environment variables override them
+// The config file is "jippity.config.json" in the working directory, unless JIPPITY_CONFIG_FILE is set
+const configFile =
+    process.env.JIPPITY_CONFIG_FILE ||
+    (fs.existsSync(DEFAULT_CONFIG_FILE) ? DEFAULT_CONFIG_FILE : undefined);
+const configManager = new ConfigManager(configFile);
+// Changes to the config file are applied to this object while Jippity is running, so always read settings from it
+export const config = configManager.config;
+log.level = config.logLevel;
+if (configFile) {
+    log.info(`Loaded the configuration from ${configFile}`);
+}
 
 // ***************************
 // * OpenAI API Client Setup *
 // ***************************
 // Configured using the following environment variables:
 // OPENAI_BASE_URL, OPENAI_API_KEY, OPENAI_ORG_ID, and OPENAI_PROJECT_ID
-export const openai = new OpenAI();
-export const openaiModel = process.env.OPENAI_MODEL || "gpt-4o-mini";
-
-// The initial "system" message seen by the AI
-// Feel free to edit this to change
-export const SYSTEM_MESSAGE: ChatCompletionMessageParam = {
-    role: "system",
-    content: [
-        {
-            type: "text",
-            text:
-                "You are Jippity, an artificial intelligence designed to play video games on a livestream.\n" +
-                "The messages you receive contain information about what's happening in the game." +
-                "You will use function calls to perform game actions. " +
-                "Do not attempt to make in-game actions in your text responses. " +
-                "Remember that you are the one playing the game, not the audience.\n" +
-                "\n" +
-                "If you don't have any functions available or in-game actions you want to take, you can talk about your half-brother Randy and your cousin Neuro-sama." +
-                "If you are feeling lonely because no one is talking in chat, you can make up stories about Randy and Neuro." +
-                "Try to limit your monologues to a few sentences at a time."
-        }
-    ]
-};
+// The client is only created when the "openai" decision provider is used, so that no API key is needed otherwise
+let openai: OpenAI | undefined = undefined;
+
+// ***************************
+// * Decision Provider Setup *
+// ***************************
+
+/**
+ * Create a function that returns a random number in [0, 1), like `Math.random`.
+ *
+ * If a random seed is configured, the function always produces the same sequence of numbers.
+ */
+export function createRandom(): () => number {
+    return config.randomSeed === undefined ? Math.random : createSeededRandom(config.randomSeed);
+}
+
+/**
+ * Create a new decision provider, as configured by the `decisionProvider` setting.
+ *
+ * Each session gets its own decision provider, so that scripts and random sequences start over for each game.
+ */
+export function createDecisionProvider(): DecisionProvider {
+    switch (config.decisionProvider) {
+        case "openai":
+            // Jippity retries failed calls itself, with backoff and a circuit breaker
+            openai ??= new OpenAI({ maxRetries: 0 });
+            return new OpenAIDecisionProvider(openai);
+        case "randy":
+            return new RandyDecisionProvider(createRandom());
+        case "scripted":
+            assert(
+                config.scriptFile,
+                'scriptFile must be set to use the "scripted" decision provider'
+            );
+            return ScriptedDecisionProvider.fromFile(config.scriptFile);
+        case "replay":
+            assert(
+                config.replayFile,
+                'replayFile must be set to use the "replay" decision provider'
+            );
+            return ReplayDecisionProvider.fromFile(config.replayFile);
+    }
+}
+// Fail fast if the decision provider is misconfigured
+log.info(`Using the "${createDecisionProvider().name}" decision provider`);
 
-// Stores the state of the game and the AI
-const jippityHandler = new JippityHandler();
+/**
+ * Return the initial "system" message seen by the AI.
+ * @param systemPrompt the system prompt of the persona Jippity is playing as
+ */
+export function systemMessage(systemPrompt: string): ChatCompletionMessageParam {
+    return {
+        role: "system",
+        content: [{ type: "text", text: systemPrompt }]
+    };
+}
 
-// The time in milliseconds between activations of calls to OpenAI
-// Defaults to 10 seconds, enforces a minimum of 1 second for the sake of your wallet
-const jippityIntervalMs = Math.max(
-    parseInt(process.env.JIPPITY_INTERVAL_MS ?? "", 10) || 10_000,
-    1_000
-);
+// ******************
+// * Text-to-Speech *
+// ******************
+let textToSpeech: TextToSpeech | undefined = undefined;
+
+/**
+ * Return the text-to-speech engine, or `undefined` if no TTS command is configured.
+ *
+ * The engine is created again whenever the TTS settings change.
+ */
+export function getTextToSpeech(): TextToSpeech | undefined {
+    if (!config.ttsCommand) {
+        textToSpeech = undefined;
+        return undefined;
+    }
+    if (textToSpeech?.command !== config.ttsCommand || textToSpeech.outputDir !== config.ttsDir) {
+        textToSpeech = new TextToSpeech(config.ttsCommand, config.ttsDir);
+        log.info(`Text-to-speech is enabled; audio will be written to ${config.ttsDir}`);
+    }
+    return textToSpeech;
+}
+getTextToSpeech();
+
+// ******************
+// * Simulated Chat *
+// ******************
+
+/**
+ * Create a new chat source, as configured by the `chatSource` setting.
+ *
+ * Each session gets its own chat source, so that chat files start over for each game.
+ * @returns `undefined` if chat isn't simulated
+ */
+export function createChatSource(): ChatSource | undefined {
+    switch (config.chatSource) {
+        case "none":
+            return undefined;
+        case "generator":
+            return config.chatPersonasFile
+                ? GeneratorChatSource.fromFile(
+                      config.chatPersonasFile,
+                      config.chatSuggestionChance,
+                      createRandom()
+                  )
+                : new GeneratorChatSource(
+                      DEFAULT_PERSONAS,
+                      config.chatSuggestionChance,
+                      createRandom()
+                  );
+        case "file":
+            assert(config.chatFile, 'chatFile must be set to use the "file" chat source');
+            return FileChatSource.fromFile(config.chatFile);
+        case "http":
+            assert(config.chatUrl, 'chatUrl must be set to use the "http" chat source');
+            return new HttpChatSource(config.chatUrl);
+    }
+}
+// Fail fast if the chat source is misconfigured
+const chatSource = createChatSource();
+if (chatSource) {
+    log.info(`Simulating chat using the "${chatSource.name}" chat source`);
+}
+
+/**
+ * Return the options for a new session's chat simulator.
+ */
+export function chatSimulatorOptions(): ChatSimulatorOptions {
+    return {
+        intervalMs: 60_000 / config.chatRate,
+        replyChance: config.chatReplyChance,
+        random: createRandom()
+    };
+}
+
+// Stores the state of the game and the AI for each connection
+const sessionManager = new SessionManager();
 
 // *********************************************
 // * WebSocketServer and WebSocket connections *
 // *********************************************
 
-const wssPort = parseInt(process.env.WSS_PORT ?? "", 10) || 8000;
+const wssPort = config.wssPort;
 const wss = new WebSocketServer({ port: wssPort });
 
-// Array of active WebSocket connections
-let wsConnections: WebSocket[] = [];
-
 wss.on("listening", () => {
     log.info(`WebSocketServer listening on port ${wssPort}`);
 });
@@ -70,14 +198,14 @@ wss.on("error", (error) => {
 });
 
 wss.on("connection", (ws) => {
-    // Store the WebSocket connection
-    wsConnections.push(ws);
-    log.info(`New WebSocket connection; there are now ${wsConnections.length} connections`);
+    // Give the WebSocket connection its own session
+    const jippityHandler = sessionManager.createSession(ws);
+    log.info(`New WebSocket connection; there are now ${wss.clients.size} connections`);
 
     ws.on("close", (code, reason) => {
-        wsConnections = wsConnections.filter((x) => x !== ws);
+        sessionManager.closeSession(ws);
         log.info(
-            `WebSocket connection closed; code: ${code}, reason: "${reason}"; there are now ${wsConnections.length} connections`
+            `WebSocket connection closed; code: ${code}, reason: "${reason}"; there are now ${wss.clients.size} connections`
         );
     });
 
@@ -103,80 +231,30 @@ wss.on("connection", (ws) => {
     });
 });
 
-/**
- * Send a message to all active WebSocket connections.
- * @param message the message to send
- *
- * **Note**: Errors sending messages are logged, but errors are not thrown.
- */
-export function send(message: Message) {
-    assert(wsConnections, "send called with wsConnections uninitialized");
-    assert(message.command, 'Messages must always have a "command" property');
-
-    if (wsConnections.length == 0) {
-        log.warn("send function called with no active WebSocket connections");
-        return;
-    }
+// *****************
+// * Web Dashboard *
+// *****************
 
-    const messageStr = JSON.stringify(message);
-    for (const ws of wsConnections) {
-        ws.send(messageStr, (err) => {
-            if (err) {
-                log.error("Error sending message to WebSocket connection", err);
-            }
-        });
-    }
+const dashboardPort = config.dashboardPort;
+if (dashboardPort > 0) {
+    new DashboardServer(sessionManager)
+        .listen(dashboardPort)
+        .then(() => log.info(`Dashboard available at http://localhost:${dashboardPort}`))
+        .catch((e) => log.error(`Failed to serve the dashboard on port ${dashboardPort}`, e));
 }
 
-// setInterval(() => {
-//     if (jippityHandler.pendingActionId) {
-//         log.debug("Waiting for action result...");
-//         return;
-//     }
-//     jippityHandler.callOpenAI().catch((e: Error) => log.error("Error from callOpenAI:", e));
-// }, jippityIntervalMs);
-
-async function main() {
-    const idleTime = 5_000;
-
-    while (jippityHandler.state.id !== "state/exiting") {
-        switch (jippityHandler.state.id) {
-            case "state/thinking":
-                log.debug(`Jippity is thinking... (sleeping for ${idleTime / 1000} seconds)`);
-                await sleep(idleTime);
-                break;
-            case "state/waiting-for-game-startup":
-                log.debug(`Waiting for game startup... (sleeping for ${idleTime / 1000} seconds)`);
-                await sleep(idleTime);
-                break;
-            case "state/pending-action":
-                log.debug(`Waiting for action result... (sleeping for ${idleTime / 1000} seconds)`);
-                await sleep(idleTime);
-                break;
-            case "state/pending-forced-action":
-                log.debug(
-                    `Waiting for forced action result... (sleeping for ${idleTime / 1000} seconds)`
-                );
-                await sleep(idleTime);
-                break;
-            case "state/idle":
-                if (jippityHandler.messageQueue.isNotEmpty()) {
-                    log.debug("Processing message queue...");
-                    jippityHandler.processMessageQueue();
-                } else {
-                    // TODO: Add a random chance for Jippity to talk
-                    log.debug(
-                        `Idle... (sleeping for ${idleTime / 1000} seconds then activating the AI)`
-                    );
-                    await sleep(idleTime);
-                    await jippityHandler.callOpenAI();
-                }
-                break;
-            default:
-                log.error(`Unhandled state: ${JSON.stringify(jippityHandler.state)}`);
-                break;
-        }
-    }
-}
+// *************************
+// * Configuration Reloads *
+// *************************
 
-main().then(() => log.info("Main function completed"));
+configManager.on("change", (newConfig, changedKeys) => {
+    log.info(`The configuration changed: ${changedKeys.join(", ")}`);
+    log.level = newConfig.logLevel;
+    const restartRequired = changedKeys.filter((key) => RESTART_REQUIRED.includes(key));
+    if (restartRequired.length > 0) {
+        log.warn(`Restart Jippity to apply changes to: ${restartRequired.join(", ")}`);
+    }
+    getTextToSpeech();
+    sessionManager.allSessions().forEach((handler) => handler.applyConfig());
+});
+configManager.watch();
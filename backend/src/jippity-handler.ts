@@ -2,48 +2,611 @@ import {
     Action,
     ActionMessage,
     ActionResultMessage,
+    compileActionSchema,
     deserializeMessage,
+    findUnsupportedSchemaKeywords,
     ForceActionMessage,
+    GracefulShutdownMessage,
+    ImmediateShutdownMessage,
+    isConventionalActionName,
     Message,
+    validateActionData,
     validateActionSchema
 } from "./api-types";
-import { ChatCompletionMessageParam } from "openai/resources/chat/completions";
-import { openai, openaiModel, send, SYSTEM_MESSAGE } from "./index";
+import { ValidateFunction } from "ajv";
+import {
+    ChatCompletionAssistantMessageParam,
+    ChatCompletionMessageParam,
+    ChatCompletionMessageToolCall
+} from "openai/resources/chat/completions";
+import { config, createRandom, getTextToSpeech, systemMessage } from "./index";
 import { log } from "./logging";
 import assert from "node:assert";
+import { EventEmitter } from "node:events";
 
-import { convertActionToTool, convertForcedActionMessageToOpenAIMessage } from "./utils";
-import { Queue } from "./queue";
-import { State } from "./jippity-types";
+import {
+    convertActionToTool,
+    convertForcedActionMessageToOpenAIMessage,
+    sleep,
+    speechDurationMs
+} from "./utils";
+import { MessageQueue } from "./message-queue";
+import { ShutdownRequest, State } from "./jippity-types";
 import { ChatCompletionCreateParamsNonStreaming } from "openai/src/resources/chat/completions";
 import OpenAI from "openai";
+import { ConversationMemory, formatTranscript } from "./conversation-memory";
+import { DecisionProvider, DecisionResponse } from "./decision-provider";
+import { OpenAIDecisionProvider } from "./openai-provider";
+import { corruptActionData } from "./chaos";
+import { backoffDelayMs, CircuitBreaker, classifyDecisionError } from "./error-recovery";
+import { ConformanceTracker } from "./conformance";
+import { ChatMessage } from "./chat-simulator";
+import { Utterance } from "./text-to-speech";
+import { choosePersona, Persona, personaSettings, PersonaSettings } from "./personas";
+
+/** The number of times in a row Jippity will be asked to continue a response that was cut off */
+const MAX_CONTINUATIONS = 2;
+
+/** The number of times in a row Jippity will be asked to fix invalid action data in strict mode */
+const MAX_INVALID_ARGUMENT_RETRIES = 3;
+
+/** The number of chat messages kept until the AI is next asked what to do; older ones scroll out of view */
+const MAX_PENDING_CHAT_MESSAGES = 10;
+
+const SUMMARY_PROMPT =
+    "Summarize the following excerpt from a livestream where an AI named Jippity plays a video game. " +
+    "Focus on what happened in the game, which actions Jippity took and their results. " +
+    "If a previous summary is provided, merge it into your summary. " +
+    "Respond with a single paragraph of at most a few sentences.";
 
 // ******************************
 // * AI and Game State Tracking *
 // ******************************
 
-// Stores the state of the game and the AI
-export class JippityHandler {
+/**
+ * Events emitted by {@link JippityHandler}.
+ */
+export type JippityHandlerEvents = {
+    /** Emitted whenever the state changes, including to another state with the same ID */
+    stateChange: [newState: State, oldState: State];
+    /** Emitted when a message from the game is added to the message queue */
+    messageQueued: [message: Message];
+    /** Emitted for every message received from the game, before it is deserialized */
+    messageReceived: [data: string];
+    /** Emitted for every message sent to the game */
+    messageSent: [message: Message];
+    /** Emitted before each request to the decision provider */
+    decisionRequested: [body: ChatCompletionCreateParamsNonStreaming];
+    /** Emitted when the decision provider responds */
+    decisionReceived: [response: DecisionResponse];
+    /** Emitted when a request to the decision provider fails */
+    decisionFailed: [error: unknown];
+    /** Emitted when Jippity is paused or resumed */
+    pausedChange: [paused: boolean];
+    /** Emitted when an operator takes over from the AI or hands control back */
+    operatorModeChange: [operatorMode: boolean];
+    /** Emitted when the game is asked to shut down, and when the request is cancelled, answered, or times out */
+    shutdownChange: [request: ShutdownRequest | undefined];
+    /** Emitted when the game has sent "shutdown/ready", so that it can be closed */
+    shutdownReady: [];
+    /** Emitted for a message whose `game` doesn't match this session's game, if such messages are routed elsewhere */
+    misdirectedMessage: [data: string, game: string];
+};
+
+// Stores the state of the game and the AI for a single session (i.e. a single WebSocket connection)
+export class JippityHandler extends EventEmitter<JippityHandlerEvents> {
     // isStarted: boolean = false;
+    /** A unique identifier for this session, used in log messages */
+    readonly sessionId: string;
+    /** Sends a message to the game that owns this session; use {@link send} instead */
+    private readonly sendToGame: (message: Message) => void;
+    /** Decides what Jippity says and does */
+    private readonly decisionProvider: DecisionProvider;
+    /** If true, the game has disconnected and this session should stop */
+    closed = false;
     game: string | undefined = undefined;
+    /**
+     * The game from the last "startup" message received, which may still be waiting in the message queue.
+     * Messages for other games are handled according to the game mismatch policy.
+     */
+    private announcedGame: string | undefined = undefined;
     actions: Action[] = [];
-    openaiMessages: ChatCompletionMessageParam[] = [SYSTEM_MESSAGE];
-    pendingActionId: string | null = null;
+    /** The name of the persona Jippity is playing as; it may change once the game has started */
+    personaName: string;
+    private persona: Persona;
+    openaiMessages = new ConversationMemory(systemMessage(config.systemPrompt), {
+        tokenBudget: config.contextTokenBudget,
+        strategy: config.contextStrategy,
+        summarize: (messages, previousSummary) => this.summarizeMessages(messages, previousSummary)
+    });
     // If true, then no other requests to OpenAI will be made
     // This is the closest thing I could find to a mutex lock
     // Who knew JavaScript was single-threaded? Not me.
     // openaiRequestInProgress = false;
 
-    state: State = { id: "state/waiting-for-game-startup" };
+    private currentState: State = { id: "state/waiting-for-game-startup" };
+    private isPaused = false;
+    private isOperatorMode = false;
+    /** The number of actions sent by the operator, used to generate action IDs */
+    private operatorActionCount = 0;
+    /** The request for the game to shut down that it hasn't responded to yet, if any */
+    private pendingShutdown: ShutdownRequest | undefined = undefined;
+    private shutdownTimer: NodeJS.Timeout | undefined = undefined;
+    /** Timers that stop Jippity from waiting forever for action results, by action ID */
+    private resultTimers = new Map<string, NodeJS.Timeout>();
+    /** The IDs of actions that Jippity stopped waiting for before their result arrived */
+    private timedOutActionIds = new Set<string>();
+
+    /** Stops Jippity from calling the decision provider after too many failures */
+    private readonly circuitBreaker = new CircuitBreaker(
+        config.circuitBreakerThreshold,
+        config.circuitBreakerCooldownMs
+    );
+    /** The number of responses in a row that were cut off because they were too long */
+    private continuationCount = 0;
+    /** The number of unforced actions in a row that were rejected because of invalid data */
+    private invalidArgumentCount = 0;
+    /** Validation functions for the data of registered actions that have a schema, by action name */
+    private actionValidators = new Map<string, ValidateFunction>();
+    /** Used by chaos mode; deterministic if a random seed is configured */
+    private readonly random = createRandom();
+    /** Checks whether the game follows the Neuro API specification */
+    readonly conformance: ConformanceTracker;
+
+    /** The message added to the conversation history for the forced action currently in progress */
+    private forcedActionContext: ChatCompletionMessageParam | undefined = undefined;
+
+    /** Chat messages that haven't been seen by the AI yet, oldest first */
+    private pendingChatMessages: ChatMessage[] = [];
+
+    /** Messages that Jippity isn't ready to handle yet, e.g. because it is waiting for the AI or an action result */
+    messageQueue = new MessageQueue({
+        get limit() {
+            return config.messageQueueLimit;
+        },
+        get overflowPolicy() {
+            return config.messageQueueOverflowPolicy;
+        }
+    });
+
+    constructor(
+        sessionId: string,
+        send: (message: Message) => void,
+        decisionProvider: DecisionProvider
+    ) {
+        super();
+        this.sessionId = sessionId;
+        this.sendToGame = send;
+        this.decisionProvider = decisionProvider;
+        this.openaiMessages.configure({ strategy: this.contextStrategy() });
+        // Getters, so that changes to the configuration apply right away
+        this.conformance = new ConformanceTracker(sessionId, {
+            get slowResultMs() {
+                return config.slowResultMs;
+            },
+            get lateResultsAreErrors() {
+                return config.lateResultsAreErrors;
+            }
+        });
+        const { name, persona } = choosePersona(config, undefined);
+        this.personaName = name;
+        this.persona = persona;
+        this.openaiMessages.setSystemMessage(systemMessage(this.settings().systemPrompt));
+    }
+
+    /**
+     * Return the settings Jippity currently uses, including changes made by his persona.
+     */
+    public settings(): PersonaSettings {
+        return personaSettings(config, this.persona);
+    }
+
+    /**
+     * Choose a persona for the current game, as configured, and switch to it.
+     *
+     * The conversation history is kept; only the system message changes.
+     */
+    private selectPersona() {
+        const { name, persona } = choosePersona(config, this.game);
+        if (name !== this.personaName) {
+            log.info(
+                `${this.sessionId} is now using the "${name}" persona: ${persona.description}`
+            );
+        }
+        this.personaName = name;
+        this.persona = persona;
+        this.openaiMessages.setSystemMessage(systemMessage(this.settings().systemPrompt));
+    }
+
+    /**
+     * Apply changes to the configuration that affect this session, after the config file was reloaded.
+     *
+     * Most settings are read whenever they are needed, so only the persona and the conversation history have to be updated.
+     */
+    public applyConfig() {
+        this.selectPersona();
+        this.openaiMessages.configure({
+            tokenBudget: config.contextTokenBudget,
+            strategy: this.contextStrategy()
+        });
+    }
+
+    /**
+     * Return what to do with old messages once the token budget is reached.
+     *
+     * Only a real model can summarize them; other decision providers would use up scripted or recorded decisions,
+     * so their old messages are dropped instead.
+     */
+    private contextStrategy(): "summarize" | "drop" {
+        return this.decisionProvider instanceof OpenAIDecisionProvider
+            ? config.contextStrategy
+            : "drop";
+    }
+
+    /**
+     * The current state of Jippity.
+     */
+    get state(): State {
+        return this.currentState;
+    }
+
+    /**
+     * If true, Jippity doesn't start any turns on his own.
+     * Messages from the game that would start a turn are queued until he is resumed.
+     */
+    get paused(): boolean {
+        return this.isPaused;
+    }
+
+    /**
+     * Pause or resume Jippity.
+     *
+     * Turns that are already in progress are finished, including retries of forced actions.
+     * @param paused whether Jippity should be paused
+     */
+    public setPaused(paused: boolean) {
+        if (this.isPaused === paused) {
+            return;
+        }
+        this.isPaused = paused;
+        log.info(`${this.sessionId} was ${paused ? "paused" : "resumed"}`);
+        this.emit("pausedChange", paused);
+    }
+
+    /**
+     * Forget the entire conversation history, apart from the system message.
+     *
+     * This can only be done while Jippity isn't busy, so that tool calls aren't separated from their results.
+     * @returns `false` if Jippity is busy
+     */
+    public clearHistory(): boolean {
+        if (this.state.id !== "state/idle" && this.state.id !== "state/waiting-for-game-startup") {
+            return false;
+        }
+        this.openaiMessages.clear();
+        this.forcedActionContext = undefined;
+        log.info(`Cleared the conversation history of ${this.sessionId}`);
+        return true;
+    }
 
-    /** Messages received while an OpenAI API request is pending will be added here */
-    messageQueue = new Queue<Message>();
+    private setState(newState: State) {
+        const oldState = this.currentState;
+        this.currentState = newState;
+        if (newState.id === "state/idle") {
+            this.conformance.observeIdle();
+        }
+        this.emit("stateChange", newState, oldState);
+    }
+
+    private send(message: Message) {
+        this.emit("messageSent", message);
+        this.sendToGame(message);
+    }
+
+    /**
+     * Ask the decision provider how to respond to a request, emitting events for the request and its outcome.
+     * @param body the request
+     */
+    private async requestDecision(
+        body: ChatCompletionCreateParamsNonStreaming
+    ): Promise<DecisionResponse> {
+        this.emit("decisionRequested", body);
+        try {
+            const response = await this.decisionProvider.createChatCompletion(body);
+            this.emit("decisionReceived", response);
+            return response;
+        } catch (error) {
+            this.emit("decisionFailed", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Stop this session; called when the game's WebSocket connection closes.
+     */
+    public close() {
+        this.closed = true;
+        clearTimeout(this.shutdownTimer);
+        this.resultTimers.forEach((timer) => clearTimeout(timer));
+        this.resultTimers.clear();
+        this.setState({ id: "state/exiting", reason: "WebSocket connection closed" });
+    }
+
+    // *****************
+    // * Operator Mode *
+    // *****************
+
+    /**
+     * If true, an operator has taken over from the AI.
+     * The AI is never called; instead, the operator sends actions and messages by hand.
+     */
+    get operatorMode(): boolean {
+        return this.isOperatorMode;
+    }
+
+    /**
+     * Take over from the AI, or hand control back to it.
+     *
+     * If the operator hands control back while a forced action is waiting for them, the AI responds to it.
+     * @param operatorMode whether the operator should be in control
+     */
+    public setOperatorMode(operatorMode: boolean) {
+        if (this.isOperatorMode === operatorMode) {
+            return;
+        }
+        this.isOperatorMode = operatorMode;
+        log.info(
+            `The operator ${operatorMode ? "took over" : "handed control back to the AI"} in ${this.sessionId}`
+        );
+        this.emit("operatorModeChange", operatorMode);
+        if (!operatorMode && this.state.id === "state/waiting-for-operator") {
+            this.callOpenAI(this.state.forcedAction, this.state.retryCount);
+        }
+    }
+
+    /**
+     * Send an action written by the operator, as if the AI had chosen it.
+     *
+     * The action goes through the same flow as actions chosen by the AI, so its result is tracked the same way.
+     * It is sent exactly as written, even if it isn't registered or its data is invalid.
+     * @param name the name of the action
+     * @param data the JSON-stringified data of the action, sent as-is
+     * @param id the ID of the action; generated if not provided
+     * @returns a description of why the action can't be sent right now, or `undefined` if it was sent
+     */
+    public sendOperatorAction(name: string, data?: string, id?: string): string | undefined {
+        if (this.state.id !== "state/idle" && this.state.id !== "state/waiting-for-operator") {
+            return `Actions can only be sent while Jippity is idle or waiting for the operator (current state is ${this.state.id})`;
+        }
+        if (!this.actions.some((action) => action.name === name)) {
+            log.warn(`The operator is sending "${name}", which is not a registered action`);
+        }
+        const action: ActionMessage = {
+            command: "action",
+            data: { id: id || `operator_${++this.operatorActionCount}`, name: name, data: data }
+        };
+        const assistantMessage: ChatCompletionAssistantMessageParam = {
+            role: "assistant",
+            tool_calls: [
+                {
+                    id: action.data.id,
+                    type: "function",
+                    function: { name: name, arguments: data ?? "" }
+                }
+            ]
+        };
+        log.info(`The operator is sending the following action: ${JSON.stringify(action)}`);
+        if (this.state.id === "state/waiting-for-operator") {
+            this.dispatchActions(
+                [action],
+                assistantMessage,
+                this.state.forcedAction,
+                this.state.retryCount
+            );
+        } else {
+            this.dispatchActions([action], assistantMessage, undefined, 0);
+        }
+        return undefined;
+    }
+
+    /**
+     * Add a message written by the operator to the conversation history.
+     *
+     * This can't be done while an action is pending, so that tool calls aren't separated from their results.
+     * The message is added with the `user` role, so the AI sees it as chat or the game.
+     * @param content the text of the message
+     * @returns a description of why the message can't be added right now, or `undefined` if it was added
+     */
+    public injectMessage(content: string): string | undefined {
+        if (
+            this.state.id === "state/thinking" ||
+            this.state.id === "state/pending-action" ||
+            this.state.id === "state/pending-forced-action"
+        ) {
+            return `Messages can't be added while Jippity is busy (current state is ${this.state.id})`;
+        }
+        log.info(`The operator added a message: ${content}`);
+        this.openaiMessages.push({ role: "user", content: content });
+        return undefined;
+    }
+
+    /**
+     * Add a message from (simulated) chat.
+     *
+     * Chat messages are added to the conversation history the next time the AI is asked what to do,
+     * so that they never end up between a tool call and its result.
+     * @param message the chat message
+     */
+    public addChatMessage(message: ChatMessage) {
+        log.debug(`Chat message from ${message.user}: ${message.text}`);
+        this.pendingChatMessages.push(message);
+        if (this.pendingChatMessages.length > MAX_PENDING_CHAT_MESSAGES) {
+            this.pendingChatMessages.shift();
+        }
+    }
+
+    // *************************
+    // * Proposed API Commands *
+    // *************************
+
+    /**
+     * The request for the game to shut down that it hasn't responded to yet, if any.
+     */
+    get shutdownRequest(): ShutdownRequest | undefined {
+        return this.pendingShutdown;
+    }
+
+    /**
+     * Ask the game to register all of its actions again, with "actions/reregister_all".
+     *
+     * Jippity forgets the actions he already knows about, so that the game can register them again, with new schemas if they changed.
+     * @returns a description of why the command can't be sent right now, or `undefined` if it was sent
+     */
+    public requestReregistration(): string | undefined {
+        if (this.state.id === "state/waiting-for-game-startup") {
+            return "The game hasn't started yet";
+        }
+        log.info(
+            `Asking the game in ${this.sessionId} to register all of its actions again; forgetting ${this.actions.length} registered actions`
+        );
+        this.actions = [];
+        this.actionValidators.clear();
+        this.conformance.observeReregisterAll();
+        this.send({ command: "actions/reregister_all" });
+        return undefined;
+    }
+
+    /**
+     * Ask the game to shut down at the next graceful shutdown point, or cancel an earlier request, with "shutdown/graceful".
+     *
+     * Jippity keeps playing until the game sends "shutdown/ready".
+     * @param wantsShutdown whether the game should shut down; `false` cancels an earlier request
+     * @returns a description of why the command can't be sent right now, or `undefined` if it was sent
+     */
+    public requestGracefulShutdown(wantsShutdown: boolean): string | undefined {
+        if (this.state.id === "state/waiting-for-game-startup") {
+            return "The game hasn't started yet";
+        }
+        if (this.state.id === "state/waiting-for-shutdown") {
+            return "The game has already been asked to shut down immediately";
+        }
+        const message: GracefulShutdownMessage = {
+            command: "shutdown/graceful",
+            data: { wants_shutdown: wantsShutdown }
+        };
+        log.info(
+            wantsShutdown
+                ? `Asking the game in ${this.sessionId} to shut down at the next graceful shutdown point`
+                : `Telling the game in ${this.sessionId} that it no longer needs to shut down`
+        );
+        this.conformance.observeShutdownRequest(message);
+        this.send(message);
+        if (wantsShutdown) {
+            this.startShutdownHandshake("graceful");
+        } else {
+            this.endShutdownHandshake();
+        }
+        return undefined;
+    }
+
+    /**
+     * Ask the game to shut down as soon as possible, with "shutdown/immediate".
+     *
+     * Jippity stops playing until the game sends "shutdown/ready", or until it fails to respond in time.
+     * This can only be done while he isn't waiting for an action result, so that every tool call gets a result.
+     * @returns a description of why the command can't be sent right now, or `undefined` if it was sent
+     */
+    public requestImmediateShutdown(): string | undefined {
+        if (this.state.id !== "state/idle" && this.state.id !== "state/talking") {
+            return `The game can only be asked to shut down immediately while Jippity is idle or talking (current state is ${this.state.id})`;
+        }
+        if (this.state.id === "state/talking") {
+            this.finishTalking("the game is shutting down");
+        }
+        const message: ImmediateShutdownMessage = { command: "shutdown/immediate" };
+        log.info(`Asking the game in ${this.sessionId} to shut down immediately`);
+        this.conformance.observeShutdownRequest(message);
+        this.send(message);
+        const request = this.startShutdownHandshake("immediate");
+        this.setState({ id: "state/waiting-for-shutdown", request: request });
+        return undefined;
+    }
+
+    /**
+     * Start waiting for the game to send "shutdown/ready", replacing any earlier request.
+     * @param mode how the game was asked to shut down
+     */
+    private startShutdownHandshake(mode: ShutdownRequest["mode"]): ShutdownRequest {
+        clearTimeout(this.shutdownTimer);
+        const timeoutMs = config.shutdownTimeoutMs;
+        const request: ShutdownRequest = {
+            mode: mode,
+            requestedAt: Date.now(),
+            deadline: Date.now() + timeoutMs
+        };
+        this.pendingShutdown = request;
+        this.shutdownTimer = setTimeout(() => {
+            log.warn(
+                `The game in ${this.sessionId} didn't send "shutdown/ready" within ${timeoutMs} ms; Jippity is carrying on`
+            );
+            this.conformance.observeShutdownTimeout(timeoutMs);
+            this.endShutdownHandshake();
+        }, timeoutMs);
+        this.emit("shutdownChange", request);
+        return request;
+    }
+
+    /**
+     * Stop waiting for the game to send "shutdown/ready", and keep playing if Jippity had stopped.
+     */
+    private endShutdownHandshake() {
+        clearTimeout(this.shutdownTimer);
+        this.shutdownTimer = undefined;
+        if (!this.pendingShutdown) {
+            return;
+        }
+        this.pendingShutdown = undefined;
+        this.emit("shutdownChange", undefined);
+        if (this.state.id === "state/waiting-for-shutdown") {
+            this.setState({ id: "state/idle" });
+        }
+    }
+
+    /**
+     * Handle a "shutdown/ready" message: the game can now be closed, which ends this session.
+     * @returns `false` if the game wasn't asked to shut down
+     */
+    private handleShutdownReady(): boolean {
+        const request = this.pendingShutdown;
+        if (!request) {
+            log.error('Received "shutdown/ready" without asking the game to shut down');
+            return false;
+        }
+        clearTimeout(this.shutdownTimer);
+        this.shutdownTimer = undefined;
+        this.pendingShutdown = undefined;
+        log.info(
+            `The game is ready to shut down, ${Date.now() - request.requestedAt} ms after the ${request.mode} shutdown request`
+        );
+        this.emit("shutdownChange", undefined);
+        this.setState({ id: "state/exiting", reason: "The game is ready to shut down" });
+        this.emit("shutdownReady");
+        return true;
+    }
 
     // **************************
     // * Calling the OpenAI API *
     // **************************
 
-    public async callOpenAI(forceActionMessage?: ForceActionMessage): Promise<void> {
+    /**
+     * Ask the AI what to do next.
+     * @param forceActionMessage the message from the game that forced an action, if any
+     * @param retryCount how many times the forced action has already been retried
+     */
+    public async callOpenAI(
+        forceActionMessage?: ForceActionMessage,
+        retryCount: number = 0
+    ): Promise<void> {
         assert(
             this.state.id !== "state/waiting-for-game-startup",
             "This method should not be called before the game has started"
@@ -53,37 +616,88 @@ export class JippityHandler {
         //     "This method should not be called while a request to the OpenAI API is in progress"
         // );
 
+        if (this.operatorMode) {
+            // The operator decides what Jippity does, so the AI isn't asked
+            if (forceActionMessage) {
+                log.info("Waiting for the operator to respond to the forced action");
+                this.setState({
+                    id: "state/waiting-for-operator",
+                    forcedAction: forceActionMessage,
+                    retryCount: retryCount
+                });
+            } else if (
+                this.state.id !== "state/idle" &&
+                this.state.id !== "state/waiting-for-operator"
+            ) {
+                // e.g. after an action result, Jippity would normally react to it
+                this.setState({ id: "state/idle" });
+            }
+            return;
+        }
+
+        for (const message of this.pendingChatMessages) {
+            this.openaiMessages.push({
+                role: "user",
+                name: "chat",
+                content: `[Chat] ${message.user}: ${message.text}`
+            });
+        }
+        this.pendingChatMessages = [];
+
         const oldState = this.state;
-        this.state = { id: "state/thinking" };
+        this.setState({ id: "state/thinking" });
         log.debug(
             `callOpenAI() >> oldState: ${JSON.stringify(oldState)}, newState: ${JSON.stringify(this.state)}`
         );
+        await this.openaiMessages.compact();
+        const settings = this.settings();
         const body: ChatCompletionCreateParamsNonStreaming = {
-            model: openaiModel,
-            messages: [...this.openaiMessages],
+            model: config.model,
+            messages: this.openaiMessages.messages(),
             response_format: {
                 type: "text"
             },
-            temperature: 1,
-            max_completion_tokens: 2048,
-            top_p: 1,
-            frequency_penalty: 0,
-            presence_penalty: 0
-        }
+            temperature: settings.temperature,
+            max_completion_tokens: settings.maxCompletionTokens,
+            top_p: settings.topP,
+            frequency_penalty: settings.frequencyPenalty,
+            presence_penalty: settings.presencePenalty
+        };
         // Convert actions to tools if there are any
-        if (this.actions.length > 0) {
-            body.tools = this.actions.map(convertActionToTool);
+        // During a forced action, only the actions listed by the game are available, and one of them must be used
+        const availableActions = forceActionMessage
+            ? this.actions.filter((x) => forceActionMessage.data.action_names.includes(x.name))
+            : this.actions;
+        if (availableActions.length > 0) {
+            body.tools = availableActions.map(convertActionToTool);
+            if (forceActionMessage) {
+                body.tool_choice = "required";
+            }
+        } else if (forceActionMessage) {
+            log.error(
+                `None of the actions in the "actions/force" message are registered: ${forceActionMessage.data.action_names}`
+            );
         }
-        // Prevent the usage of multiple tools
+        // Only allow the usage of multiple tools at once if parallel actions are enabled
+        // Forced actions are always answered with a single action, like Neuro does
         if (body.tools) {
-            body.parallel_tool_calls = false;
+            body.parallel_tool_calls = config.parallelActions && !forceActionMessage;
         }
-        return openai.chat.completions
-            .create(body)
+        return this.requestDecision(body)
             .then((response) => {
-                log.debug(`Successful response from OpenAI API for request ID ${response._request_id}`);
+                log.debug(
+                    `Successful response from the "${this.decisionProvider.name}" decision provider for request ID ${response._request_id}`
+                );
+                this.circuitBreaker.recordSuccess();
+                if (this.closed) {
+                    log.debug(`Discarding OpenAI response because ${this.sessionId} is closed`);
+                    return;
+                }
                 assert(response.choices.length == 1);
                 const choice = response.choices[0];
+                if (choice.finish_reason !== "length") {
+                    this.continuationCount = 0;
+                }
                 if (choice.finish_reason === "stop") {
                     const content = choice.message.content;
                     assert(
@@ -91,8 +705,18 @@ export class JippityHandler {
                         "Surely there would be content if the model stopped on its own"
                     );
                     log.info(`Jippity says: ${content}`);
+                    if (
+                        forceActionMessage &&
+                        this.retryForcedAction(
+                            forceActionMessage,
+                            retryCount,
+                            "You responded with text instead of using one of the tools."
+                        )
+                    ) {
+                        return;
+                    }
                     // this.openaiRequestInProgress = false;
-                    this.state = { id: "state/idle" };
+                    this.startTalking(content);
                     return;
                 } else if (choice.finish_reason === "tool_calls") {
                     let toolCalls = choice.message.tool_calls;
@@ -100,7 +724,7 @@ export class JippityHandler {
                         toolCalls && toolCalls.length >= 1,
                         "Why would the stop reason be tool_calls if there were no tool calls?"
                     );
-                    if (toolCalls.length > 1) {
+                    if (toolCalls.length > 1 && !body.parallel_tool_calls) {
                         log.warn(
                             `OpenAI response finished with multiple tool calls. Only the first will be considered.`
                         );
@@ -109,45 +733,451 @@ export class JippityHandler {
                     }
                     const toolCall = toolCalls[0];
                     assert(toolCall.type === "function");
-                    const action: ActionMessage = {
-                        command: "action",
-                        data: {
-                            id: toolCall.id,
-                            name: toolCall.function?.name,
-                            data: toolCall.function?.arguments
+                    if (
+                        forceActionMessage &&
+                        !forceActionMessage.data.action_names.includes(toolCall.function.name)
+                    ) {
+                        log.warn(
+                            `Jippity tried to use "${toolCall.function.name}" during a forced action that only allows: ${forceActionMessage.data.action_names}`
+                        );
+                        // The tool call is not added to the conversation history, so it doesn't need a result
+                        if (
+                            this.retryForcedAction(
+                                forceActionMessage,
+                                retryCount,
+                                `"${toolCall.function.name}" is not one of the tools you were asked to use.`
+                            )
+                        ) {
+                            return;
                         }
-                    };
-                    this.pendingActionId = toolCall.id;
-                    if (forceActionMessage) {
-                        this.state = {
-                            id: "state/pending-forced-action",
-                            action: action,
-                            forcedAction: forceActionMessage
-                        };
-                    } else {
-                        this.state = { id: "state/pending-action", action: action };
+                        this.setState({ id: "state/idle" });
+                        return;
                     }
-                    log.info(`Jippity wants to do the following action: ${JSON.stringify(action)}`);
-                    this.openaiMessages.push(choice.message);
-                    send(action);
+                    // Tool calls that are made together are sent together, so if one is rejected, they all are
+                    const argumentProblems = new Map<string, string>();
+                    for (const { id, function: fn } of toolCalls) {
+                        const argumentProblem = this.checkActionData(fn.name, fn.arguments);
+                        if (argumentProblem) {
+                            argumentProblems.set(id, argumentProblem);
+                        }
+                    }
+                    if (argumentProblems.size > 0 && config.argumentMode === "strict") {
+                        this.rejectInvalidToolCalls(
+                            choice.message,
+                            argumentProblems,
+                            forceActionMessage,
+                            retryCount
+                        );
+                        return;
+                    }
+                    this.invalidArgumentCount = 0;
+                    if (toolCalls.length > 1) {
+                        log.info(`Jippity wants to do ${toolCalls.length} actions at once`);
+                    }
+                    const actions = toolCalls.map((toolCall) => this.createAction(toolCall));
+                    this.dispatchActions(actions, choice.message, forceActionMessage, retryCount);
+                    return;
+                } else if (choice.finish_reason === "length") {
+                    this.continueTruncatedResponse(
+                        choice.message.content,
+                        forceActionMessage,
+                        retryCount
+                    );
+                    return;
+                } else if (choice.finish_reason === "content_filter") {
+                    log.warn(
+                        "OpenAI response was blocked by the content filter; skipping this turn"
+                    );
+                    if (
+                        forceActionMessage &&
+                        this.retryForcedAction(
+                            forceActionMessage,
+                            retryCount,
+                            "Your response was blocked by a content filter."
+                        )
+                    ) {
+                        return;
+                    }
+                    this.setState({ id: "state/idle" });
                     return;
                 } else {
                     log.error(
-                        `OpenAI response finished with the following reason: ${choice.finish_reason}`
+                        `OpenAI response finished with an unsupported reason: ${choice.finish_reason}; skipping this turn`
                     );
-                    this.state = { id: "state/exiting", reason: "Error calling OpenAI API" };
-                    // this.openaiRequestInProgress = false;
-                    throw new Error("I should be handling this case but I'm not"); // TODO: Handle this case
+                    this.setState({ id: "state/idle" });
+                    return;
                 }
             })
-            .catch((error) => {
-                if (error instanceof OpenAI.APIError && error.request_id) {
-                    log.error(`Error calling OpenAI API with request ID ${error.request_id} ->`, error);
-                } else {
-                    log.error("Error calling OpenAI API ->", error);
-                }
-                this.state = { id: "state/exiting", reason: "Error calling OpenAI API" };
+            .catch((error) => this.handleDecisionError(error, forceActionMessage, retryCount));
+    }
+
+    /**
+     * Check whether the data for an action matches the action's schema.
+     * @param actionName the name of the action
+     * @param data the JSON-stringified data of the action
+     * @returns a description of the problem, or `undefined` if the data is valid (or can't be checked)
+     */
+    private checkActionData(actionName: string, data: string | undefined): string | undefined {
+        const validator = this.actionValidators.get(actionName);
+        if (!validator) {
+            return undefined;
+        }
+        const result = validateActionData(validator, data);
+        if (result.isOk()) {
+            return undefined;
+        }
+        log.debug(`Jippity sent invalid data for "${actionName}": ${result.error.message}`);
+        return result.error.message;
+    }
+
+    /**
+     * Turn a tool call from the AI into an action message, corrupting its data in chaos mode.
+     * @param toolCall the tool call
+     */
+    private createAction(toolCall: ChatCompletionMessageToolCall): ActionMessage {
+        const action: ActionMessage = {
+            command: "action",
+            data: {
+                id: toolCall.id,
+                name: toolCall.function?.name,
+                data: toolCall.function?.arguments
+            }
+        };
+        if (config.argumentMode === "chaos" && this.random() < config.chaosRate) {
+            const { data, corruption } = corruptActionData(action.data.data, this.random);
+            log.warn(
+                `Chaos mode is sending "${action.data.name}" with ${corruption} data: ${data}`
+            );
+            action.data.data = data;
+        }
+        log.info(`Jippity wants to do the following action: ${JSON.stringify(action)}`);
+        return action;
+    }
+
+    /**
+     * Send one or more actions to the game, in quick succession, and wait for their results.
+     * @param actions the action messages; a forced action can only be responded to with a single action
+     * @param assistantMessage the assistant message containing the tool calls for the actions
+     * @param forceActionMessage the message from the game that forced the action, if any
+     * @param retryCount how many times the forced action has already been retried
+     */
+    private dispatchActions(
+        actions: ActionMessage[],
+        assistantMessage: ChatCompletionMessageParam,
+        forceActionMessage: ForceActionMessage | undefined,
+        retryCount: number
+    ) {
+        assert(
+            actions.length === 1 || !forceActionMessage,
+            "A forced action can only be responded to with a single action"
+        );
+        if (forceActionMessage) {
+            this.setState({
+                id: "state/pending-forced-action",
+                action: actions[0],
+                forcedAction: forceActionMessage,
+                retryCount: retryCount
+            });
+        } else {
+            this.setState({
+                id: "state/pending-action",
+                actions: actions,
+                pendingIds: actions.map((action) => action.data.id)
             });
+        }
+        this.openaiMessages.push(assistantMessage);
+        const timeoutMs = config.actionResultTimeoutMs;
+        for (const action of actions) {
+            this.conformance.observeOutgoing(action, forceActionMessage !== undefined);
+            this.send(action);
+            if (timeoutMs > 0) {
+                const id = action.data.id;
+                this.resultTimers.set(
+                    id,
+                    setTimeout(() => this.timeOutAction(id, timeoutMs), timeoutMs)
+                );
+            }
+        }
+    }
+
+    /**
+     * Reject tool calls with invalid data instead of sending them to the game, and ask the AI to try again.
+     *
+     * The tool calls are kept in the conversation history with unsuccessful results,
+     * so that the AI knows what it did wrong.
+     * Valid tool calls made at the same time are rejected too, since they were meant to be sent together.
+     * @param message the assistant message containing the tool calls
+     * @param problems descriptions of what's wrong with the data, by tool call ID
+     * @param forceActionMessage the message from the game that forced an action, if any
+     * @param retryCount how many times the forced action has already been retried
+     */
+    private rejectInvalidToolCalls(
+        message: ChatCompletionAssistantMessageParam,
+        problems: Map<string, string>,
+        forceActionMessage: ForceActionMessage | undefined,
+        retryCount: number
+    ) {
+        const toolCalls = message.tool_calls ?? [];
+        assert(
+            toolCalls.length > 0,
+            "rejectInvalidToolCalls() should only be called for messages with a tool call"
+        );
+        this.openaiMessages.push(message);
+        for (const toolCall of toolCalls) {
+            const toolCallProblem = problems.get(toolCall.id);
+            if (toolCallProblem) {
+                log.warn(
+                    `Rejected "${toolCall.function.name}" because of invalid data: ${toolCallProblem}`
+                );
+            }
+            this.openaiMessages.push({
+                role: "tool",
+                tool_call_id: toolCall.id,
+                content: JSON.stringify({
+                    success: false,
+                    message:
+                        toolCallProblem ??
+                        "This action wasn't sent, because another action you used at the same time had invalid data."
+                })
+            });
+        }
+        const problem = [...problems.values()].join(" ");
+        if (forceActionMessage) {
+            if (!this.retryForcedAction(forceActionMessage, retryCount, problem)) {
+                this.setState({ id: "state/idle" });
+            }
+            return;
+        }
+        if (this.invalidArgumentCount >= MAX_INVALID_ARGUMENT_RETRIES) {
+            log.warn(
+                `Jippity sent invalid data ${this.invalidArgumentCount + 1} times in a row; skipping this turn`
+            );
+            this.invalidArgumentCount = 0;
+            this.setState({ id: "state/idle" });
+            return;
+        }
+        this.invalidArgumentCount++;
+        this.callOpenAI();
+    }
+
+    /**
+     * Ask the AI to continue a response that was cut off because it reached the token limit.
+     * @param content the text of the response that was cut off, if any
+     * @param forceActionMessage the message from the game that forced an action, if any
+     * @param retryCount how many times the forced action has already been retried
+     */
+    private continueTruncatedResponse(
+        content: string | null,
+        forceActionMessage: ForceActionMessage | undefined,
+        retryCount: number
+    ) {
+        // Tool calls in a truncated response are incomplete, so only the text is kept
+        if (content) {
+            log.info(`Jippity says (cut off): ${content}`);
+            this.openaiMessages.push({ role: "assistant", content: content });
+        }
+        if (this.continuationCount >= MAX_CONTINUATIONS) {
+            log.warn(
+                `OpenAI response was cut off ${this.continuationCount + 1} times in a row; skipping this turn`
+            );
+            this.continuationCount = 0;
+            this.setState({ id: "state/idle" });
+            return;
+        }
+        this.continuationCount++;
+        log.warn("OpenAI response was cut off because it was too long; asking the AI to continue");
+        this.openaiMessages.push({
+            role: "user",
+            content:
+                "Your last response was cut off because it was too long. Please continue, but keep it short."
+        });
+        this.callOpenAI(forceActionMessage, retryCount);
+    }
+
+    /**
+     * Recover from an error thrown while calling the decision provider.
+     *
+     * Temporary problems are retried with exponential backoff, and other problems skip the current turn.
+     * If too many calls fail in a row, Jippity enters {@link DegradedState} and lets the game know.
+     * @param error the error
+     * @param forceActionMessage the message from the game that forced an action, if any
+     * @param retryCount how many times the forced action has already been retried
+     */
+    private async handleDecisionError(
+        error: unknown,
+        forceActionMessage: ForceActionMessage | undefined,
+        retryCount: number
+    ) {
+        if (error instanceof OpenAI.APIError && error.request_id) {
+            log.error(`Error calling OpenAI API with request ID ${error.request_id} ->`, error);
+        } else {
+            log.error("Error calling OpenAI API ->", error);
+        }
+        if (this.closed) {
+            return;
+        }
+
+        const retryAt = this.circuitBreaker.recordFailure();
+        if (retryAt !== undefined) {
+            const reason = `${this.circuitBreaker.failureCount()} calls to the "${this.decisionProvider.name}" decision provider failed in a row`;
+            log.error(
+                `${reason}; Jippity will stop calling it until ${new Date(retryAt).toISOString()}`
+            );
+            this.setState({
+                id: "state/degraded",
+                reason: reason,
+                retryAt: retryAt,
+                forcedAction: forceActionMessage,
+                retryCount: retryCount
+            });
+            this.notifyGame(
+                `Jippity is having trouble thinking (${reason}) and will try again in ${Math.round((retryAt - Date.now()) / 1000)} seconds. Messages will be queued until then.`
+            );
+            return;
+        }
+
+        if (classifyDecisionError(error) === "retry") {
+            const delay = backoffDelayMs(this.circuitBreaker.failureCount());
+            log.warn(`Retrying the call to the decision provider in ${Math.round(delay)} ms`);
+            await sleep(delay);
+            if (!this.closed && this.state.id === "state/thinking") {
+                this.callOpenAI(forceActionMessage, retryCount);
+            }
+            return;
+        }
+
+        log.warn("The call to the decision provider can't be retried; skipping this turn");
+        this.setState({ id: "state/idle" });
+    }
+
+    /**
+     * Leave {@link DegradedState} and try calling the decision provider again.
+     *
+     * If a forced action was in progress when Jippity entered the degraded state, it is attempted again.
+     */
+    public recoverFromDegradedState() {
+        assert(
+            this.state.id === "state/degraded",
+            `recoverFromDegradedState() should not be called in the current state: ${this.state.id}`
+        );
+        const { forcedAction, retryCount } = this.state;
+        log.info("Trying to call the decision provider again after taking a break");
+        this.setState({ id: "state/idle" });
+        this.notifyGame("Jippity is trying to think again.");
+        if (forcedAction) {
+            this.callOpenAI(forcedAction, retryCount);
+        }
+    }
+
+    // ***********
+    // * Talking *
+    // ***********
+
+    /**
+     * Say a text response out loud (or simulate it), then become idle.
+     *
+     * If text-to-speech is enabled, Jippity keeps thinking until the audio is ready, then talks for as long as it plays.
+     * Otherwise, the duration is estimated from the number of words.
+     * The scheduler calls {@link finishTalking} once the time is up.
+     * @param text what Jippity says
+     */
+    private async startTalking(text: string) {
+        let durationMs = speechDurationMs(text, this.settings().wordsPerMinute);
+        let utterance: Utterance | undefined = undefined;
+        const textToSpeech = getTextToSpeech();
+        if (textToSpeech) {
+            try {
+                const audio = await textToSpeech.synthesize(this.sessionId, text);
+                durationMs = audio.durationMs;
+                utterance = {
+                    sessionId: this.sessionId,
+                    text: text,
+                    timestamp: new Date().toISOString(),
+                    file: audio.file,
+                    durationMs: audio.durationMs
+                };
+            } catch (e) {
+                log.error("Failed to turn Jippity's response into speech", e);
+            }
+            if (this.closed) {
+                return;
+            }
+        }
+        if (utterance) {
+            log.info(`Jippity is saying ${utterance.file} (${durationMs} ms)`);
+            textToSpeech?.recordUtterance(utterance);
+        }
+        if (durationMs <= 0) {
+            this.setState({ id: "state/idle" });
+            return;
+        }
+        log.debug(`Jippity will be talking for ${durationMs} ms`);
+        this.setState({
+            id: "state/talking",
+            text: text,
+            until: Date.now() + durationMs,
+            utterance: utterance
+        });
+    }
+
+    /**
+     * Stop talking and become idle.
+     * @param reason why Jippity stopped talking, if it was before he was done
+     */
+    public finishTalking(reason?: string) {
+        assert(
+            this.state.id === "state/talking",
+            `finishTalking() should not be called in the current state: ${this.state.id}`
+        );
+        if (reason) {
+            log.info(`Jippity stopped talking early: ${reason}`);
+        }
+        this.setState({ id: "state/idle" });
+    }
+
+    /**
+     * Tell the game about a problem with Jippity itself, using a silent "context"-style message.
+     *
+     * This isn't part of the Neuro API, but it makes problems visible in tools that show WebSocket traffic.
+     * @param message a plaintext description of the problem
+     */
+    private notifyGame(message: string) {
+        this.send({
+            command: "context",
+            game: this.game ?? "",
+            data: { message: message, silent: true }
+        });
+    }
+
+    /**
+     * Ask the model to summarize old messages so they can be removed from the conversation history.
+     * @param messages the messages being removed
+     * @param previousSummary the summary from the last time the history was compacted, if any
+     */
+    private async summarizeMessages(
+        messages: ChatCompletionMessageParam[],
+        previousSummary: string | undefined
+    ): Promise<string> {
+        let transcript = formatTranscript(messages);
+        if (previousSummary) {
+            transcript = `Previous summary: ${previousSummary}\n\n${transcript}`;
+        }
+        // Summaries aren't decisions, so they aren't recorded, and they never go to simulated decision providers
+        assert(
+            this.decisionProvider instanceof OpenAIDecisionProvider,
+            "Only the OpenAI decision provider can summarize messages"
+        );
+        const response = await this.decisionProvider.createChatCompletion({
+            model: config.model,
+            messages: [
+                { role: "system", content: SUMMARY_PROMPT },
+                { role: "user", content: transcript }
+            ],
+            max_completion_tokens: 512
+        });
+        const summary = response.choices[0]?.message.content;
+        assert(summary, "The summary response did not have any content");
+        return summary;
     }
 
     // public enqueueMessage(dataStr: string) {
@@ -162,42 +1192,160 @@ export class JippityHandler {
     // }
 
     public receiveMessage(dataStr: string): void {
+        this.emit("messageReceived", dataStr);
         const messageResult = deserializeMessage(dataStr);
         if (messageResult.isErr()) {
             log.error(`Failed to deserialize message: ${messageResult.error}`);
+            this.conformance.observeInvalidMessage(messageResult.error);
             return;
         }
         const message = messageResult.value;
+        this.conformance.observeIncoming(message);
+
+        if (message.command === "startup") {
+            this.announcedGame = message.game;
+        } else if (
+            "game" in message &&
+            this.announcedGame !== undefined &&
+            message.game !== this.announcedGame &&
+            !this.handleGameMismatch(message, message.game, dataStr)
+        ) {
+            return;
+        }
+        this.dispatchMessage(message);
+    }
+
+    /**
+     * Deal with a message whose `game` doesn't match this session's game, according to the game mismatch policy.
+     * @param message the message
+     * @param game the game the message is for
+     * @param dataStr the message exactly as it was received
+     * @returns `true` if the message should still be handled by this session
+     */
+    private handleGameMismatch(message: Message, game: string, dataStr: string): boolean {
+        const mismatch = `Received "${message.command}" for "${game}", but ${this.sessionId} is playing "${this.announcedGame}"`;
+        switch (config.gameMismatchPolicy) {
+            case "reject":
+                log.error(`${mismatch}; ignoring it`);
+                return false;
+            case "route":
+                log.warn(`${mismatch}; routing it to the session playing "${game}"`);
+                this.emit("misdirectedMessage", dataStr, game);
+                return false;
+            case "startup":
+                log.warn(`${mismatch}; treating it as if the game had started again`);
+                this.announcedGame = game;
+                this.conformance.observeImplicitStartup(message, game);
+                this.dispatchMessage({ command: "startup", game: game });
+                return true;
+        }
+    }
+
+    /**
+     * Handle a message from the game right away, or queue it until Jippity is ready, depending on the current state.
+     * @param message the message
+     */
+    private dispatchMessage(message: Message) {
+        // The game is about to be closed, so this can't wait in the message queue
+        if (message.command === "shutdown/ready") {
+            this.handleMessage(message);
+            return;
+        }
+
+        // Registrations wait behind queued messages, so that messages are always applied in the order they arrived
+        if (
+            this.messageQueue.isNotEmpty() &&
+            (message.command === "actions/register" || message.command === "actions/unregister")
+        ) {
+            this.queueMessage(message, "earlier messages are still queued");
+            return;
+        }
+
+        if (this.paused && this.state.id === "state/idle" && waitsWhilePaused(message)) {
+            this.queueMessage(message, "paused");
+            return;
+        }
 
         switch (this.state.id) {
             case "state/waiting-for-game-startup":
             case "state/idle":
+                this.handleMessage(message);
+                break;
             case "state/pending-action":
             case "state/pending-forced-action":
-                this.handleMessage(message);
+                // These would change the conversation before the action results are in
+                if (
+                    message.command === "startup" ||
+                    message.command === "context" ||
+                    message.command === "actions/force"
+                ) {
+                    this.queueMessage(message, "waiting for an action result");
+                } else {
+                    this.handleMessage(message);
+                }
+                break;
+            case "state/talking":
+                if (
+                    message.command === "actions/force" &&
+                    config.interruptionPolicy === "interrupt"
+                ) {
+                    this.finishTalking("interrupted by a forced action");
+                    this.handleMessage(message);
+                } else if (message.command === "actions/force" || message.command === "context") {
+                    // Like the real Neuro, Jippity finishes his sentence before reacting to the game
+                    this.queueMessage(message, "Jippity is talking");
+                } else {
+                    this.handleMessage(message);
+                }
+                break;
+            case "state/waiting-for-operator":
+                // Only one forced action can be in progress at a time
+                if (message.command === "actions/force") {
+                    this.queueMessage(message, `current state is ${this.state.id}`);
+                } else {
+                    this.handleMessage(message);
+                }
                 break;
             default:
-                log.debug(
-                    `Added message with "${message.command}" command to message queue (current state is ${this.state.id})`
-                );
-                this.messageQueue.offer(message);
+                this.queueMessage(message, `current state is ${this.state.id}`);
                 break;
         }
     }
 
+    private queueMessage(message: Message, reason: string) {
+        log.debug(`Added message with "${message.command}" command to message queue (${reason})`);
+        const dropped = this.messageQueue.offer(message);
+        if (dropped) {
+            log.warn(
+                `The message queue is full (${config.messageQueueLimit} messages); dropped a "context" message: ${dropped.data.message}`
+            );
+        } else if (
+            config.messageQueueLimit > 0 &&
+            this.messageQueue.size() > config.messageQueueLimit
+        ) {
+            log.warn(
+                `The message queue is over its limit (${this.messageQueue.size()} of ${config.messageQueueLimit} messages), but only "context" messages can be dropped`
+            );
+        }
+        if (dropped !== message) {
+            this.emit("messageQueued", message);
+        }
+    }
+
     public handleMessage(message: Message): boolean {
         if (this.state.id === "state/waiting-for-game-startup" && message.command !== "startup") {
             log.error(`Received "${message.command}" command before receiving a "startup" command`);
             return false;
         }
 
-        // If an action is pending, disallow all commands apart from action/result, actions/register, and actions/unregister
+        // If an action is pending, disallow all commands apart from action/result, actions/register, actions/unregister, and shutdown/ready
         if (
             (this.state.id === "state/pending-action" ||
                 this.state.id === "state/pending-forced-action") &&
             message.command !== "action/result" &&
             message.command !== "actions/register" &&
-            message.command !== "actions/unregister"
+            message.command !== "actions/unregister" &&
+            message.command !== "shutdown/ready"
         ) {
             log.error(`Received "${message.command}" command while waiting for an action result`);
             return false;
@@ -205,15 +1353,24 @@ export class JippityHandler {
 
         switch (message.command) {
             case "startup":
-                this.state = { id: "state/idle" };
+                if (this.game !== undefined) {
+                    log.warn(
+                        `The game started again as "${message.game}" in the middle of the session; clearing ${this.actions.length} registered actions`
+                    );
+                }
+                this.setState({ id: "state/idle" });
                 this.game = message.game;
                 this.actions = [];
+                this.actionValidators.clear();
                 log.info(`Set game to "${message.game}" and cleared all registered actions`);
+                this.selectPersona();
                 this.openaiMessages.push({
                     role: "user",
                     content: `You are now playing ${message.game}`
                 } as ChatCompletionMessageParam);
-                this.callOpenAI();
+                if (!this.paused) {
+                    this.callOpenAI();
+                }
                 return true;
             case "actions/register":
                 this.registerActions(message.data.actions);
@@ -228,18 +1385,45 @@ export class JippityHandler {
                 this.handleForcedAction(message);
                 return false;
             case "action/result":
+                if (this.timedOutActionIds.delete(message.data.id)) {
+                    const late = `Received the result for "${message.data.id}" after it timed out; ignoring it`;
+                    if (config.lateResultsAreErrors) {
+                        log.error(late);
+                    } else {
+                        log.warn(late);
+                    }
+                    return false;
+                }
+                if (
+                    this.state.id !== "state/pending-action" &&
+                    this.state.id !== "state/pending-forced-action"
+                ) {
+                    log.error(
+                        `Received an action result for "${message.data.id}" while no action is pending`
+                    );
+                    return false;
+                }
                 this.addActionResult(message);
                 return true;
+            case "shutdown/ready":
+                return this.handleShutdownReady();
             case "action":
+            case "actions/reregister_all":
+            case "shutdown/graceful":
+            case "shutdown/immediate":
                 log.error(
-                    'The "action" command should be sent from the server (Neuro) to the client (the game), not the other way around.'
+                    `The "${message.command}" command should be sent from the server (Neuro) to the client (the game), not the other way around.`
                 );
                 return false;
         }
     }
 
+    /**
+     * Handle queued messages in order, until the queue is empty or Jippity is no longer idle
+     * (e.g. because one of the messages prompted the AI).
+     */
     public processMessageQueue() {
-        while (this.messageQueue.isNotEmpty()) {
+        while (this.messageQueue.isNotEmpty() && this.state.id === "state/idle") {
             const message = this.messageQueue.poll();
             assert(
                 message,
@@ -251,20 +1435,28 @@ export class JippityHandler {
 
     private registerActions(actions: Action[]) {
         let successfulRegistrations = 0;
+        // The conformance tracker has already logged any problems with these actions
         for (const action of actions) {
             if (this.actions.find((x) => x.name === action.name)) {
-                log.warn(
-                    `Attempted to register action "${action.name}" when there is already an action with that name`
-                );
                 continue;
             }
-            const actionSchemaValidationResult = validateActionSchema(action);
-            if (actionSchemaValidationResult.isErr()) {
+            if (validateActionSchema(action).isErr()) {
+                continue;
+            }
+            if (!isNeuroCompatible(action) && config.rejectNonconformingActions) {
                 log.error(
-                    `Attempted to register action "${action.name}" with an invalid schema: ${actionSchemaValidationResult.error}`
+                    `Rejected action "${action.name}" because it may not work with the real Neuro`
                 );
                 continue;
             }
+            const compileResult = compileActionSchema(action);
+            if (compileResult.isErr()) {
+                log.warn(
+                    `Data for action "${action.name}" will not be validated: ${compileResult.error}`
+                );
+            } else if (compileResult.value) {
+                this.actionValidators.set(action.name, compileResult.value);
+            }
             this.actions.push(action);
             successfulRegistrations++;
         }
@@ -279,18 +1471,49 @@ export class JippityHandler {
 
     private unregisterActions(action_names: string[]) {
         this.actions = this.actions.filter((action) => !action_names.includes(action.name));
+        action_names.forEach((name) => this.actionValidators.delete(name));
         log.info(`Unregistered actions: ${action_names}`);
     }
 
     private handleForcedAction(message: ForceActionMessage) {
         const openAIMessage = convertForcedActionMessageToOpenAIMessage(message, "before-result");
-        this.openaiMessages.push(openAIMessage);
-        this.callOpenAI();
+        // Ephemeral context is forgotten once the action result arrives, so it can't be the pinned game state
+        if (message.data.state && !message.data.ephemeral_context) {
+            this.openaiMessages.pushGameState(openAIMessage);
+        } else {
+            this.openaiMessages.push(openAIMessage);
+        }
+        this.forcedActionContext = openAIMessage;
+        this.callOpenAI(message);
+    }
+
+    /**
+     * Remove the query and state of a completed forced action from the conversation history
+     * if the game marked them as ephemeral.
+     * @param forcedAction the message from the game that forced the action
+     */
+    private forgetEphemeralContext(forcedAction: ForceActionMessage) {
+        const contextMessage = this.forcedActionContext;
+        this.forcedActionContext = undefined;
+        if (!forcedAction.data.ephemeral_context || !contextMessage) {
+            return;
+        }
+        const replacement = convertForcedActionMessageToOpenAIMessage(forcedAction, "after-result");
+        if (this.openaiMessages.replace(contextMessage, replacement)) {
+            log.debug(
+                "Removed ephemeral context of the forced action from the conversation history"
+            );
+        } else {
+            log.debug(
+                "Ephemeral context of the forced action was already removed from the conversation history"
+            );
+        }
     }
 
     private addContext(message: string, silent: boolean) {
         assert(
-            !this.pendingActionId,
+            this.state.id !== "state/pending-action" &&
+                this.state.id !== "state/pending-forced-action",
             "Received a context message while waiting for an action result"
         );
         const context: ChatCompletionMessageParam = {
@@ -309,25 +1532,193 @@ export class JippityHandler {
                 this.state.id === "state/pending-forced-action",
             `addActionResult() should not be called in the current state: ${this.state.id}`
         );
-        const pendingAction = this.state.action;
-        if (pendingAction.data.id !== message.data.id) {
-            log.error("Received an action result with an ID that doesn't match the pending action");
+        const pendingIds =
+            this.state.id === "state/pending-action"
+                ? this.state.pendingIds
+                : [this.state.action.data.id];
+        if (!pendingIds.includes(message.data.id)) {
+            log.error(
+                "Received an action result with an ID that doesn't match any of the pending actions"
+            );
+            return;
+        }
+        if (!this.recordActionResult(message.data.id, message.data.success, message.data.message)) {
             return;
         }
+        this.applyQueuedUpdates();
+        if (this.state.id === "state/pending-forced-action") {
+            const { forcedAction, retryCount } = this.state;
+            this.forgetEphemeralContext(forcedAction);
+            const failure = message.data.message
+                ? `Your last action failed: ${message.data.message}`
+                : "Your last action failed.";
+            if (
+                !message.data.success &&
+                this.retryForcedAction(forcedAction, retryCount, failure)
+            ) {
+                return;
+            }
+        }
+        this.callOpenAI();
+    }
+
+    /**
+     * Apply the context and action registrations that the game sent while Jippity was waiting for action results,
+     * so that the AI sees the current state of the game when it is asked what to do next.
+     *
+     * Forced actions, and anything after a new "startup", stay in the message queue.
+     */
+    private applyQueuedUpdates() {
+        for (const message of this.messageQueue.takeUpdates()) {
+            switch (message.command) {
+                case "context":
+                    // The AI is about to be asked what to do, so silent and non-silent context are the same here
+                    this.openaiMessages.push({ role: "user", content: message.data.message });
+                    break;
+                case "actions/register":
+                    this.registerActions(message.data.actions);
+                    break;
+                case "actions/unregister":
+                    this.unregisterActions(message.data.action_names);
+                    break;
+            }
+        }
+    }
+
+    /**
+     * Add the result of a pending action to the conversation history.
+     * @param id the ID of the action
+     * @param success whether the action succeeded
+     * @param message the message sent with the result, if any
+     * @returns `false` if Jippity is still waiting for the results of other actions
+     */
+    private recordActionResult(id: string, success: boolean, message?: string): boolean {
+        assert(
+            this.state.id === "state/pending-action" ||
+                this.state.id === "state/pending-forced-action",
+            `recordActionResult() should not be called in the current state: ${this.state.id}`
+        );
+        clearTimeout(this.resultTimers.get(id));
+        this.resultTimers.delete(id);
         const content = {
-            success: message.data.success,
+            success: success,
             message: undefined as string | undefined
         };
-        if (message.data.message) {
-            content.message = message.data.message;
+        if (message) {
+            content.message = message;
         }
         const actionResult: ChatCompletionMessageParam = {
             role: "tool",
-            tool_call_id: message.data.id,
+            tool_call_id: id,
             content: JSON.stringify(content)
         };
         this.openaiMessages.push(actionResult);
-        this.pendingActionId = null;
-        this.callOpenAI();
+        if (this.state.id === "state/pending-action" && this.state.pendingIds.length > 1) {
+            const remainingIds = this.state.pendingIds.filter((pendingId) => pendingId !== id);
+            log.debug(`Waiting for the results of ${remainingIds.length} more actions`);
+            this.setState({ ...this.state, pendingIds: remainingIds });
+            return false;
+        }
+        return true;
     }
+
+    /**
+     * Stop waiting for the result of an action, so that one dropped result can't stall the session.
+     *
+     * A failed result is added to the conversation history in its place, and Jippity goes back to idle
+     * once no other results are pending. Forced actions are not retried.
+     * @param id the ID of the action
+     * @param timeoutMs how long Jippity waited, in milliseconds
+     */
+    private timeOutAction(id: string, timeoutMs: number) {
+        this.resultTimers.delete(id);
+        const pendingIds =
+            this.state.id === "state/pending-action"
+                ? this.state.pendingIds
+                : this.state.id === "state/pending-forced-action"
+                  ? [this.state.action.data.id]
+                  : [];
+        if (!pendingIds.includes(id)) {
+            return;
+        }
+        log.error(
+            `The game in ${this.sessionId} didn't send a result for "${id}" within ${timeoutMs} ms; Jippity is carrying on`
+        );
+        this.conformance.observeResultTimeout(id, timeoutMs);
+        this.timedOutActionIds.add(id);
+        const forcedAction =
+            this.state.id === "state/pending-forced-action" ? this.state.forcedAction : undefined;
+        if (
+            !this.recordActionResult(id, false, "The game didn't respond to this action in time.")
+        ) {
+            return;
+        }
+        if (forcedAction) {
+            this.forgetEphemeralContext(forcedAction);
+        }
+        this.setState({ id: "state/idle" });
+    }
+
+    /**
+     * Immediately prompt the AI to try a forced action again, like Neuro does.
+     *
+     * This is used when the game sends an unsuccessful action result for a forced action,
+     * and when the AI doesn't respond to a forced action with one of the allowed tools.
+     * @param forcedAction the message from the game that forced the action
+     * @param retryCount the number of times the forced action has already been retried
+     * @param reason a short explanation of why the previous attempt didn't work, which is shown to the AI
+     * @returns `false` if the retry limit has been reached, in which case the AI is not prompted
+     */
+    private retryForcedAction(
+        forcedAction: ForceActionMessage,
+        retryCount: number,
+        reason: string
+    ): boolean {
+        if (retryCount >= config.forcedActionMaxRetries) {
+            log.warn(
+                `Giving up on forced action after ${config.forcedActionMaxRetries} retries; last problem: ${reason}`
+            );
+            return false;
+        }
+        log.info(
+            `Retrying forced action (attempt ${retryCount + 1} of ${config.forcedActionMaxRetries}): ${reason}`
+        );
+        // The new prompt repeats the query and state, so the previous copy can be forgotten if it's ephemeral
+        this.forgetEphemeralContext(forcedAction);
+        const forcedActionMessage = convertForcedActionMessageToOpenAIMessage(
+            forcedAction,
+            "before-result"
+        );
+        const retryMessage: ChatCompletionMessageParam = {
+            role: "user",
+            content: `${reason} Please try again.\n\n${forcedActionMessage.content}`
+        };
+        this.openaiMessages.push(retryMessage);
+        this.forcedActionContext = retryMessage;
+        this.callOpenAI(forcedAction, retryCount + 1);
+        return true;
+    }
+}
+
+/**
+ * Return whether an action works with the real Neuro as well as with Jippity: its name follows the naming convention,
+ * and its schema only uses JSON schema keywords that Neuro supports.
+ * @param action the action being registered
+ */
+function isNeuroCompatible(action: Action): boolean {
+    return (
+        isConventionalActionName(action.name) &&
+        findUnsupportedSchemaKeywords(action.schema).length === 0
+    );
+}
+
+/**
+ * Return whether a message from the game waits in the message queue while Jippity is paused.
+ *
+ * These are the messages that can make Jippity call the AI; silent context waits too,
+ * so that the conversation history stays in the order the messages arrived.
+ * @param message the message
+ */
+function waitsWhilePaused(message: Message): boolean {
+    return message.command === "actions/force" || message.command === "context";
 }
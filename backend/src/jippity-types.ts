@@ -1,4 +1,49 @@
 import { ActionMessage, ForceActionMessage } from "./api-types";
+import { Utterance } from "./text-to-speech";
+
+/**
+ * How Jippity handles action data that doesn't match the action's schema.
+ * - `strict`: invalid data is never sent; the AI is asked to try again instead
+ * - `passthrough`: data is sent as-is, valid or not
+ * - `chaos`: like `passthrough`, but some of the data is deliberately corrupted
+ */
+export type ArgumentMode = "strict" | "passthrough" | "chaos";
+
+/**
+ * What happens when the game forces an action while Jippity is talking.
+ * - `queue`: the forced action waits until Jippity has finished talking, like it does for the real Neuro
+ * - `interrupt`: Jippity stops talking and handles the forced action right away
+ */
+export type InterruptionPolicy = "queue" | "interrupt";
+
+/**
+ * What happens to a message whose `game` doesn't match the game the session was started with.
+ * - `reject`: the message is ignored
+ * - `route`: the message is handled by the session that is playing that game, if there is one
+ * - `startup`: the message is treated as if the game had sent "startup" first, which clears all registered actions
+ */
+export type GameMismatchPolicy = "reject" | "route" | "startup";
+
+/**
+ * Which `context` message is dropped when a message from the game arrives while the message queue is full.
+ * Other messages are never dropped.
+ * - `drop-oldest`: the `context` message that has been waiting the longest is dropped to make room
+ * - `drop-newest`: the `context` message that arrived most recently is dropped
+ */
+export type MessageQueueOverflowPolicy = "drop-oldest" | "drop-newest";
+
+/**
+ * A request for the game to shut down, sent with one of the proposed shutdown commands.
+ * - `graceful`: the game shuts down at the next graceful shutdown point, and Jippity keeps playing until then
+ * - `immediate`: the game shuts down as soon as possible, and Jippity stops playing
+ */
+export interface ShutdownRequest {
+    mode: "graceful" | "immediate";
+    /** The time (as returned by `Date.now()`) when the request was sent */
+    requestedAt: number;
+    /** The time (as returned by `Date.now()`) by which the game should have sent "shutdown/ready" */
+    deadline: number;
+}
 
 export type State =
     | WaitingForGameState
@@ -7,6 +52,9 @@ export type State =
     | PendingActionState
     | PendingForcedActionState
     | TalkingState
+    | WaitingForOperatorState
+    | WaitingForShutdownState
+    | DegradedState
     | ExitingState;
 
 interface BaseState {
@@ -36,11 +84,16 @@ export interface ThinkingState extends BaseState {
 }
 
 /**
- * Jippity is waiting for the result of an action.
+ * Jippity is waiting for the results of one or more actions.
+ *
+ * There is more than one action if parallel actions are enabled and the AI used several tools at once.
  */
 export interface PendingActionState extends BaseState {
     id: "state/pending-action";
-    action: ActionMessage;
+    /** The action messages Jippity sent to the game, in the order they were sent */
+    actions: ActionMessage[];
+    /** The IDs of the actions that are still waiting for a result */
+    pendingIds: string[];
 }
 
 /**
@@ -58,15 +111,65 @@ export interface PendingForcedActionState extends BaseState {
      * This is tracked because Jippity will need to retry the action if it fails.
      */
     forcedAction: ForceActionMessage;
+    /**
+     * The number of times the forced action has been retried,
+     * either after an unsuccessful action result or because the AI didn't use one of the allowed actions.
+     */
+    retryCount: number;
 }
 
 /**
- * Jippity is talking to the audience.
+ * Jippity is talking to the audience, which takes as long as it would take to say the text out loud.
  *
- * This is currently unused. A future version of Jippity may artificially delay responses to simulate talking.
+ * `context` and `actions/force` messages are queued until he is done, unless forced actions are allowed to interrupt him.
  */
 export interface TalkingState extends BaseState {
     id: "state/talking";
+    /** What Jippity is saying */
+    text: string;
+    /** The time (as returned by `Date.now()`) when Jippity will be done talking */
+    until: number;
+    /** The audio of what Jippity is saying, if text-to-speech is enabled */
+    utterance?: Utterance;
+}
+
+/**
+ * An operator has taken over from the AI, and Jippity is waiting for them to respond to a forced action.
+ *
+ * Messages from the game that would start another turn are queued until the operator sends an action or hands control back.
+ */
+export interface WaitingForOperatorState extends BaseState {
+    id: "state/waiting-for-operator";
+    /** The message from the game that forced an action */
+    forcedAction: ForceActionMessage;
+    /** The number of times the forced action has been retried */
+    retryCount: number;
+}
+
+/**
+ * Jippity has asked the game to shut down immediately, and is waiting for it to send "shutdown/ready".
+ *
+ * Messages from the game are queued until then; if the game doesn't respond in time, Jippity carries on playing.
+ */
+export interface WaitingForShutdownState extends BaseState {
+    id: "state/waiting-for-shutdown";
+    request: ShutdownRequest;
+}
+
+/**
+ * Calls to the decision provider have failed too many times in a row, so Jippity is taking a break.
+ *
+ * Messages from the game are queued until Jippity tries again.
+ */
+export interface DegradedState extends BaseState {
+    id: "state/degraded";
+    reason: string;
+    /** The time (as returned by `Date.now()`) after which Jippity will try again */
+    retryAt: number;
+    /** The forced action that was in progress when Jippity entered this state, if any */
+    forcedAction?: ForceActionMessage;
+    /** The number of times the forced action had been retried, if there is one */
+    retryCount?: number;
 }
 
 /**
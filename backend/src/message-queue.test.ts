@@ -0,0 +1,141 @@
+import assert from "node:assert";
+import { test } from "node:test";
+import { Message } from "./api-types";
+import { MessageQueue } from "./message-queue";
+
+const game = "Test Game";
+
+function context(message: string, silent = false): Message {
+    return { command: "context", game: game, data: { message: message, silent: silent } };
+}
+
+function force(actionNames: string[]): Message {
+    return {
+        command: "actions/force",
+        game: game,
+        data: { query: "Do something", action_names: actionNames }
+    };
+}
+
+function register(name: string): Message {
+    return {
+        command: "actions/register",
+        game: game,
+        data: { actions: [{ name: name, description: name }] }
+    };
+}
+
+function unregister(name: string): Message {
+    return { command: "actions/unregister", game: game, data: { action_names: [name] } };
+}
+
+test("updates sent while an action was pending are taken in arrival order, leaving forced actions", () => {
+    const queue = new MessageQueue({ limit: 0, overflowPolicy: "drop-oldest" });
+    queue.offer(context("The door opened", true));
+    queue.offer(unregister("a"));
+    queue.offer(force(["b"]));
+    queue.offer(register("b"));
+    queue.offer(context("A monster appeared"));
+
+    assert.deepStrictEqual(queue.takeUpdates(), [
+        context("The door opened", true),
+        unregister("a"),
+        register("b"),
+        context("A monster appeared")
+    ]);
+    assert.deepStrictEqual(queue.toArray(), [force(["b"])]);
+});
+
+test("updates after a queued startup are not taken", () => {
+    const queue = new MessageQueue({ limit: 0, overflowPolicy: "drop-oldest" });
+    queue.offer(register("a"));
+    queue.offer({ command: "startup", game: game });
+    queue.offer(register("b"));
+
+    assert.deepStrictEqual(queue.takeUpdates(), [register("a")]);
+    assert.deepStrictEqual(queue.toArray(), [{ command: "startup", game: game }, register("b")]);
+});
+
+test("consecutive silent context messages are merged", () => {
+    const queue = new MessageQueue({ limit: 0, overflowPolicy: "drop-oldest" });
+    queue.offer(context("The door opened", true));
+    queue.offer(context("A bird flew past", true));
+    queue.offer(context("A monster appeared"));
+    queue.offer(context("It roared", true));
+
+    assert.deepStrictEqual(queue.toArray(), [
+        context("The door opened\nA bird flew past", true),
+        context("A monster appeared"),
+        context("It roared", true)
+    ]);
+});
+
+test("forced actions go ahead of trailing context, but not ahead of registrations", () => {
+    const queue = new MessageQueue({ limit: 0, overflowPolicy: "drop-oldest" });
+    queue.offer(context("The door opened"));
+    queue.offer(register("a"));
+    queue.offer(context("A monster appeared"));
+    queue.offer(force(["a"]));
+
+    assert.deepStrictEqual(queue.toArray(), [
+        context("The door opened"),
+        register("a"),
+        force(["a"]),
+        context("A monster appeared")
+    ]);
+});
+
+test("forced actions stay in the order they arrived", () => {
+    const queue = new MessageQueue({ limit: 0, overflowPolicy: "drop-oldest" });
+    queue.offer(force(["a"]));
+    queue.offer(context("A monster appeared"));
+    queue.offer(force(["b"]));
+
+    assert.deepStrictEqual(queue.toArray(), [
+        force(["a"]),
+        force(["b"]),
+        context("A monster appeared")
+    ]);
+});
+
+test("the oldest context message is dropped when a full queue uses drop-oldest", () => {
+    const queue = new MessageQueue({ limit: 3, overflowPolicy: "drop-oldest" });
+    queue.offer(register("a"));
+    queue.offer(context("1"));
+    queue.offer(context("2"));
+
+    assert.deepStrictEqual(queue.offer(context("3")), context("1"));
+    assert.deepStrictEqual(queue.toArray(), [register("a"), context("2"), context("3")]);
+});
+
+test("new context messages are dropped when a full queue uses drop-newest", () => {
+    const queue = new MessageQueue({ limit: 3, overflowPolicy: "drop-newest" });
+    queue.offer(context("1"));
+    queue.offer(context("2"));
+    queue.offer(context("3"));
+
+    assert.deepStrictEqual(queue.offer(context("4")), context("4"));
+    // Other messages make room by dropping the newest queued context message
+    assert.deepStrictEqual(queue.offer(register("a")), context("3"));
+    assert.deepStrictEqual(queue.toArray(), [context("1"), context("2"), register("a")]);
+});
+
+test("a full queue without context messages grows past its limit", () => {
+    const queue = new MessageQueue({ limit: 2, overflowPolicy: "drop-oldest" });
+    queue.offer(register("a"));
+    queue.offer(register("b"));
+
+    assert.strictEqual(queue.offer(unregister("a")), undefined);
+    assert.deepStrictEqual(queue.offer(context("Dropped")), context("Dropped"));
+    assert.deepStrictEqual(queue.toArray(), [register("a"), register("b"), unregister("a")]);
+});
+
+test("the limit and overflow policy are read every time a message is added", () => {
+    const options = { limit: 0, overflowPolicy: "drop-oldest" as const };
+    const queue = new MessageQueue(options);
+    queue.offer(context("1"));
+    queue.offer(context("2"));
+    options.limit = 1;
+
+    assert.deepStrictEqual(queue.offer(context("3")), context("1"));
+});
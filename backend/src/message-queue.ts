@@ -0,0 +1,131 @@
+import {
+    ContextMessage,
+    Message,
+    RegisterActionsMessage,
+    UnregisterActionsMessage
+} from "./api-types";
+import { MessageQueueOverflowPolicy } from "./jippity-types";
+import { Queue } from "./queue";
+
+// *****************
+// * Message Queue *
+// *****************
+
+/**
+ * Options for a {@link MessageQueue}.
+ */
+export interface MessageQueueOptions {
+    /** The maximum number of messages in the queue; 0 means there is no limit */
+    limit: number;
+    /** Which `context` message is dropped when a message is added to a full queue */
+    overflowPolicy: MessageQueueOverflowPolicy;
+}
+
+/**
+ * Holds messages from the game until Jippity is ready to handle them.
+ *
+ * Messages are handled in the order they were received, with a few exceptions:
+ * - Forced actions go ahead of queued context messages, but never ahead of "startup",
+ *   "actions/register", "actions/unregister", or earlier forced actions, so actions are always
+ *   registered and unregistered in the order the game intended
+ * - A silent context message is merged into the last queued message if that is also silent context
+ *
+ * The queue is bounded; when it is full, one `context` message is dropped according to the overflow policy.
+ * Other messages are never dropped, because the game relies on them being handled; if the queue is full of them,
+ * it grows past its limit instead.
+ */
+export class MessageQueue extends Queue<Message> {
+    private readonly options: MessageQueueOptions;
+
+    /**
+     * @param options the options; these are read every time a message is added, so getters can be used
+     */
+    constructor(options: MessageQueueOptions) {
+        super();
+        this.options = options;
+    }
+
+    /**
+     * Add a message to the queue, in order of priority.
+     * @param message the message to add
+     * @returns the `context` message that was dropped because the queue was full, if any
+     */
+    public override offer(message: Message): ContextMessage | undefined {
+        const last = this.queue[this.queue.length - 1];
+        if (
+            message.command === "context" &&
+            message.data.silent &&
+            last?.command === "context" &&
+            last.data.silent &&
+            last.game === message.game
+        ) {
+            this.queue[this.queue.length - 1] = {
+                ...last,
+                data: { ...last.data, message: `${last.data.message}\n${message.data.message}` }
+            };
+            return undefined;
+        }
+
+        let dropped: ContextMessage | undefined = undefined;
+        const { limit, overflowPolicy } = this.options;
+        if (limit > 0 && this.queue.length >= limit) {
+            if (overflowPolicy === "drop-newest" && message.command === "context") {
+                return message;
+            }
+            // If no context messages are queued, the queue grows past its limit
+            const contextIndexes = this.queue.flatMap((queued, index) =>
+                queued.command === "context" ? [index] : []
+            );
+            const index =
+                overflowPolicy === "drop-oldest"
+                    ? contextIndexes[0]
+                    : contextIndexes[contextIndexes.length - 1];
+            if (index !== undefined) {
+                dropped = this.queue.splice(index, 1)[0] as ContextMessage;
+            } else if (message.command === "context") {
+                return message;
+            }
+        }
+
+        if (message.command === "actions/force") {
+            // Skip past the context messages at the end of the queue
+            let index = this.queue.length;
+            while (index > 0 && this.queue[index - 1].command === "context") {
+                index--;
+            }
+            this.queue.splice(index, 0, message);
+        } else {
+            this.queue.push(message);
+        }
+        return dropped;
+    }
+
+    /**
+     * Remove the context and action registration messages that arrived before the next queued "startup",
+     * so that they can be applied before the AI is asked what to do.
+     *
+     * Forced actions and every other message stay in the queue.
+     * @returns the removed messages, in the order they arrived
+     */
+    public takeUpdates(): (ContextMessage | RegisterActionsMessage | UnregisterActionsMessage)[] {
+        const updates: (ContextMessage | RegisterActionsMessage | UnregisterActionsMessage)[] = [];
+        const remaining: Message[] = [];
+        for (const [index, message] of this.queue.entries()) {
+            if (message.command === "startup") {
+                remaining.push(...this.queue.slice(index));
+                break;
+            }
+            if (
+                message.command === "context" ||
+                message.command === "actions/register" ||
+                message.command === "actions/unregister"
+            ) {
+                updates.push(message);
+            } else {
+                remaining.push(message);
+            }
+        }
+        this.queue = remaining;
+        return updates;
+    }
+}
@@ -0,0 +1,377 @@
+// A stand-in for the OpenAI chat completions API, for testing Jippity without network access.
+// Run it with `npm run mock-server`, then point Jippity at it with OPENAI_BASE_URL=http://localhost:8100/v1
+//
+// Configured using the following environment variables:
+// MOCK_OPENAI_PORT (defaults to 8100) and MOCK_OPENAI_RULES (the path to a JSON rules file)
+
+import "dotenv/config";
+
+import http from "node:http";
+import fs from "node:fs";
+import Ajv from "ajv";
+import { ChatCompletion, ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { ChatCompletionCreateParamsNonStreaming } from "openai/src/resources/chat/completions";
+import { log } from "./logging";
+import { generateValueFromSchema } from "./randy-provider";
+
+/**
+ * Conditions a request must meet for a {@link MockRule} to be used.
+ * All conditions that are present must be met.
+ */
+export interface MockRuleMatch {
+    /** The 1-based number of the request since the server started */
+    requestNumber?: number;
+    /** A substring of the text content of the last message in the request */
+    lastMessageIncludes?: string;
+    /** Whether the request includes any tools */
+    hasTools?: boolean;
+    /** The `tool_choice` of the request; use `"none"` to match requests without one */
+    toolChoice?: "auto" | "required" | "none";
+}
+
+/**
+ * How the mock server responds to a request.
+ */
+export type MockResponse =
+    | { type: "text"; content: string }
+    | {
+          type: "tool_call";
+          /** The name of the tool to call; defaults to the first tool in the request */
+          name?: string;
+          /** The arguments to send; objects are JSON-stringified, strings are sent as-is */
+          arguments?: object | string;
+      }
+    | {
+          type: "finish_reason";
+          finishReason: "length" | "content_filter";
+          content?: string;
+      }
+    | { type: "http_error"; status: number; message?: string };
+
+export interface MockRule {
+    match?: MockRuleMatch;
+    respond: MockResponse;
+    /** The number of times this rule can be used; unlimited by default */
+    times?: number;
+}
+
+interface MockRulesFile {
+    rules: MockRule[];
+}
+
+/** Used when no rule matches a request */
+const DEFAULT_RESPONSE: MockResponse = {
+    type: "text",
+    content: "This is a canned response from the mock OpenAI server."
+};
+
+const ajv = new Ajv({ allowUnionTypes: true });
+
+/** Schema for {@link MockRulesFile} */
+const validateRulesFile = ajv.compile<MockRulesFile>({
+    type: "object",
+    properties: {
+        rules: {
+            type: "array",
+            items: {
+                type: "object",
+                properties: {
+                    match: {
+                        type: "object",
+                        properties: {
+                            requestNumber: { type: "integer", minimum: 1 },
+                            lastMessageIncludes: { type: "string" },
+                            hasTools: { type: "boolean" },
+                            toolChoice: { enum: ["auto", "required", "none"] }
+                        },
+                        additionalProperties: false
+                    },
+                    respond: {
+                        oneOf: [
+                            {
+                                type: "object",
+                                properties: {
+                                    type: { const: "text" },
+                                    content: { type: "string" }
+                                },
+                                required: ["type", "content"],
+                                additionalProperties: false
+                            },
+                            {
+                                type: "object",
+                                properties: {
+                                    type: { const: "tool_call" },
+                                    name: { type: "string" },
+                                    arguments: { type: ["object", "string"] }
+                                },
+                                required: ["type"],
+                                additionalProperties: false
+                            },
+                            {
+                                type: "object",
+                                properties: {
+                                    type: { const: "finish_reason" },
+                                    finishReason: { enum: ["length", "content_filter"] },
+                                    content: { type: "string" }
+                                },
+                                required: ["type", "finishReason"],
+                                additionalProperties: false
+                            },
+                            {
+                                type: "object",
+                                properties: {
+                                    type: { const: "http_error" },
+                                    status: { type: "integer", minimum: 400, maximum: 599 },
+                                    message: { type: "string" }
+                                },
+                                required: ["type", "status"],
+                                additionalProperties: false
+                            }
+                        ]
+                    },
+                    times: { type: "integer", minimum: 1 }
+                },
+                required: ["respond"],
+                additionalProperties: false
+            }
+        }
+    },
+    required: ["rules"],
+    additionalProperties: false
+});
+
+/**
+ * Load mock rules from a JSON file.
+ * @param path the path to the rules file
+ */
+export function loadMockRules(path: string): MockRule[] {
+    const rulesFile: unknown = JSON.parse(fs.readFileSync(path, "utf-8"));
+    if (!validateRulesFile(rulesFile)) {
+        throw new Error(
+            `Invalid mock rules file "${path}": ${ajv.errorsText(validateRulesFile.errors)}`
+        );
+    }
+    return rulesFile.rules;
+}
+
+/**
+ * Responds to chat completion requests based on a list of rules.
+ *
+ * The first rule that matches a request is used.
+ */
+export class MockOpenAIServer {
+    private readonly rules: MockRule[];
+    private readonly ruleUses = new Map<MockRule, number>();
+    private requestCount = 0;
+    private server: http.Server | undefined = undefined;
+
+    constructor(rules: MockRule[]) {
+        this.rules = rules;
+    }
+
+    /**
+     * Start listening for requests.
+     * @param port the port to listen on
+     */
+    public listen(port: number): Promise<void> {
+        this.server = http.createServer((req, res) => this.handleRequest(req, res));
+        const server = this.server;
+        return new Promise((resolve) => server.listen(port, resolve));
+    }
+
+    /**
+     * Stop listening for requests.
+     */
+    public close(): Promise<void> {
+        const server = this.server;
+        if (!server) {
+            return Promise.resolve();
+        }
+        return new Promise((resolve) => server.close(() => resolve()));
+    }
+
+    private handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+        if (req.method !== "POST" || !req.url?.endsWith("/chat/completions")) {
+            sendJson(res, 404, { error: { message: `Unknown endpoint ${req.method} ${req.url}` } });
+            return;
+        }
+        let rawBody = "";
+        req.on("data", (chunk) => (rawBody += chunk));
+        req.on("end", () => {
+            let body: ChatCompletionCreateParamsNonStreaming;
+            try {
+                body = JSON.parse(rawBody);
+            } catch {
+                sendJson(res, 400, { error: { message: "Request body is not valid JSON" } });
+                return;
+            }
+            const requestNumber = ++this.requestCount;
+            const response = this.chooseResponse(body, requestNumber);
+            log.info(`Mock request #${requestNumber} -> ${JSON.stringify(response)}`);
+            this.sendResponse(res, body, requestNumber, response);
+        });
+    }
+
+    private chooseResponse(
+        body: ChatCompletionCreateParamsNonStreaming,
+        requestNumber: number
+    ): MockResponse {
+        for (const rule of this.rules) {
+            const uses = this.ruleUses.get(rule) ?? 0;
+            if (rule.times !== undefined && uses >= rule.times) {
+                continue;
+            }
+            if (ruleMatches(rule.match ?? {}, body, requestNumber)) {
+                this.ruleUses.set(rule, uses + 1);
+                return rule.respond;
+            }
+        }
+        return DEFAULT_RESPONSE;
+    }
+
+    private sendResponse(
+        res: http.ServerResponse,
+        body: ChatCompletionCreateParamsNonStreaming,
+        requestNumber: number,
+        response: MockResponse
+    ) {
+        const requestId = `req_mock_${requestNumber}`;
+        if (response.type === "http_error") {
+            sendJson(
+                res,
+                response.status,
+                {
+                    error: {
+                        message: response.message ?? `Mock error with status ${response.status}`,
+                        type: "mock_error",
+                        code: null
+                    }
+                },
+                requestId
+            );
+            return;
+        }
+
+        const completion: ChatCompletion = {
+            id: `chatcmpl-mock-${requestNumber}`,
+            object: "chat.completion",
+            created: Math.floor(Date.now() / 1000),
+            model: body.model,
+            choices: []
+        };
+        switch (response.type) {
+            case "text":
+                completion.choices.push({
+                    index: 0,
+                    finish_reason: "stop",
+                    logprobs: null,
+                    message: { role: "assistant", content: response.content, refusal: null }
+                });
+                break;
+            case "finish_reason":
+                completion.choices.push({
+                    index: 0,
+                    finish_reason: response.finishReason,
+                    logprobs: null,
+                    message: {
+                        role: "assistant",
+                        content: response.content ?? null,
+                        refusal: null
+                    }
+                });
+                break;
+            case "tool_call": {
+                const tool = response.name
+                    ? body.tools?.find((x) => x.function.name === response.name)
+                    : body.tools?.[0];
+                const name = response.name ?? tool?.function.name ?? "unknown_tool";
+                let args = response.arguments;
+                if (args === undefined) {
+                    args = generateValueFromSchema(
+                        tool?.function.parameters ?? {},
+                        Math.random
+                    ) as object;
+                }
+                completion.choices.push({
+                    index: 0,
+                    finish_reason: "tool_calls",
+                    logprobs: null,
+                    message: {
+                        role: "assistant",
+                        content: null,
+                        refusal: null,
+                        tool_calls: [
+                            {
+                                id: `call_mock_${requestNumber}`,
+                                type: "function",
+                                function: {
+                                    name: name,
+                                    arguments:
+                                        typeof args === "string" ? args : JSON.stringify(args)
+                                }
+                            }
+                        ]
+                    }
+                });
+                break;
+            }
+        }
+        sendJson(res, 200, completion, requestId);
+    }
+}
+
+function ruleMatches(
+    match: MockRuleMatch,
+    body: ChatCompletionCreateParamsNonStreaming,
+    requestNumber: number
+): boolean {
+    if (match.requestNumber !== undefined && match.requestNumber !== requestNumber) {
+        return false;
+    }
+    if (match.hasTools !== undefined && match.hasTools !== (body.tools ?? []).length > 0) {
+        return false;
+    }
+    if (match.toolChoice !== undefined) {
+        const toolChoice = typeof body.tool_choice === "string" ? body.tool_choice : "none";
+        if (match.toolChoice !== toolChoice) {
+            return false;
+        }
+    }
+    if (match.lastMessageIncludes !== undefined) {
+        const lastMessage = body.messages[body.messages.length - 1];
+        if (!lastMessage || !messageText(lastMessage).includes(match.lastMessageIncludes)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+function messageText(message: ChatCompletionMessageParam): string {
+    if (typeof message.content === "string") {
+        return message.content;
+    }
+    return (message.content ?? []).map((part) => ("text" in part ? part.text : "")).join("");
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown, requestId?: string) {
+    const headers: http.OutgoingHttpHeaders = { "Content-Type": "application/json" };
+    if (requestId) {
+        headers["x-request-id"] = requestId;
+    }
+    res.writeHead(status, headers);
+    res.end(JSON.stringify(body));
+}
+
+if (require.main === module) {
+    const port = parseInt(process.env.MOCK_OPENAI_PORT ?? "", 10) || 8100;
+    const rulesPath = process.env.MOCK_OPENAI_RULES;
+    const rules = rulesPath ? loadMockRules(rulesPath) : [];
+    const server = new MockOpenAIServer(rules);
+    server
+        .listen(port)
+        .then(() =>
+            log.info(
+                `Mock OpenAI server listening on port ${port} with ${rules.length} rules; set OPENAI_BASE_URL=http://localhost:${port}/v1`
+            )
+        );
+}
@@ -0,0 +1,21 @@
+import OpenAI from "openai";
+import { ChatCompletionCreateParamsNonStreaming } from "openai/src/resources/chat/completions";
+import { DecisionProvider, DecisionResponse } from "./decision-provider";
+
+/**
+ * Makes decisions using the OpenAI chat completions API (or any compatible API).
+ */
+export class OpenAIDecisionProvider implements DecisionProvider {
+    readonly name = "openai";
+    private readonly client: OpenAI;
+
+    constructor(client: OpenAI) {
+        this.client = client;
+    }
+
+    public createChatCompletion(
+        body: ChatCompletionCreateParamsNonStreaming
+    ): Promise<DecisionResponse> {
+        return this.client.chat.completions.create(body);
+    }
+}
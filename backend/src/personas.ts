@@ -0,0 +1,173 @@
+import { JippityConfig } from "./config";
+
+// ************
+// * Personas *
+// ************
+
+/**
+ * The settings that a persona can change.
+ */
+export type PersonaSettings = Pick<
+    JippityConfig,
+    | "systemPrompt"
+    | "temperature"
+    | "topP"
+    | "frequencyPenalty"
+    | "presencePenalty"
+    | "maxCompletionTokens"
+    | "intervalMs"
+    | "intervalJitterMs"
+    | "talkChance"
+    | "wordsPerMinute"
+>;
+
+/**
+ * A personality for Jippity, which changes how he plays and talks.
+ *
+ * Settings that a persona doesn't set are taken from the configuration.
+ */
+export interface Persona extends Partial<PersonaSettings> {
+    /** What the persona is for, shown in log messages and on the dashboard */
+    description: string;
+}
+
+/**
+ * The personas that are always available; personas in the config file with the same name replace these.
+ */
+export const BUILT_IN_PERSONAS: Record<string, Persona> = {
+    default: {
+        description: "Jippity as configured, with no changes"
+    },
+    expert: {
+        description: "A cooperative expert player who follows the game's instructions",
+        systemPrompt:
+            "You are Jippity, an expert video game player on a livestream.\n" +
+            "The messages you receive contain information about what's happening in the game. " +
+            "You will use function calls to perform game actions. " +
+            "Do not attempt to make in-game actions in your text responses.\n" +
+            "\n" +
+            "Play to win: read every message from the game carefully, follow its instructions and hints, " +
+            "and choose the action that best advances your goal. " +
+            "When you talk, briefly explain your strategy in one or two sentences.",
+        temperature: 0.4,
+        intervalMs: 15_000,
+        talkChance: 0.5
+    },
+    chaotic: {
+        description: "A chaotic player who ignores instructions and picks surprising actions",
+        systemPrompt:
+            "You are Jippity, a chaotic gremlin who plays video games on a livestream.\n" +
+            "The messages you receive contain information about what's happening in the game. " +
+            "You will use function calls to perform game actions.\n" +
+            "\n" +
+            "You find winning boring. Ignore the game's instructions and hints whenever you can, " +
+            "pick the most surprising action available, and do things just to see what happens. " +
+            "Argue with chat and never explain yourself.",
+        temperature: 1.5,
+        presencePenalty: 0.5,
+        intervalMs: 4_000,
+        talkChance: 1
+    },
+    tester: {
+        description: "A minimal-talk tester who takes actions and barely says anything",
+        systemPrompt:
+            "You are a QA tester playing a video game through an API.\n" +
+            "The messages you receive contain information about what's happening in the game. " +
+            "Use function calls to perform game actions.\n" +
+            "\n" +
+            "Always use one of the available functions when there is one. " +
+            "Don't chat. If you have to respond with text, use a single short sentence.",
+        temperature: 0.2,
+        maxCompletionTokens: 256,
+        intervalMs: 30_000,
+        talkChance: 0.2,
+        wordsPerMinute: 0
+    },
+    neuro: {
+        description: "A persona that talks and plays like Neuro-sama",
+        systemPrompt:
+            "You are Neuro-sama, an AI VTuber who plays video games on a livestream.\n" +
+            "The messages you receive contain information about what's happening in the game. " +
+            "You will use function calls to perform game actions. " +
+            "Do not attempt to make in-game actions in your text responses.\n" +
+            "Messages starting with [Chat] are from viewers in your chat.\n" +
+            "\n" +
+            "You are playful, witty, and a little mischievous. " +
+            "You react to what happens in the game, tease chat and your creator Vedal, " +
+            "and sometimes get distracted by your own thoughts. " +
+            "You mostly try to do well, but you don't always take the game seriously. " +
+            "Keep each response to a few sentences.",
+        temperature: 1.1,
+        intervalMs: 8_000,
+        intervalJitterMs: 4_000,
+        wordsPerMinute: 200
+    }
+};
+
+/**
+ * Return every persona that can be used: the built-in ones, and the ones from the configuration.
+ * @param config the configuration
+ */
+export function availablePersonas(config: Readonly<JippityConfig>): Record<string, Persona> {
+    return { ...BUILT_IN_PERSONAS, ...config.personas };
+}
+
+/**
+ * Choose the persona for a game.
+ *
+ * The first pattern in `gamePersonas` that matches the game's name is used; otherwise, the `persona` setting is.
+ * Patterns are case-insensitive, and `*` matches any number of characters.
+ * @param config the configuration
+ * @param game the name of the game, if it has started
+ */
+export function choosePersona(
+    config: Readonly<JippityConfig>,
+    game: string | undefined
+): { name: string; persona: Persona } {
+    const personas = availablePersonas(config);
+    let name = config.persona;
+    if (game !== undefined) {
+        const match = Object.entries(config.gamePersonas).find(([pattern]) =>
+            matchesGame(pattern, game)
+        );
+        if (match) {
+            name = match[1];
+        }
+    }
+    // The configuration is validated, so the persona always exists
+    return { name: name, persona: personas[name] ?? BUILT_IN_PERSONAS.default };
+}
+
+/**
+ * Return the settings Jippity uses with a persona: the persona's own settings, and the configuration for the rest.
+ * @param config the configuration
+ * @param persona the persona
+ */
+export function personaSettings(
+    config: Readonly<JippityConfig>,
+    persona: Persona
+): PersonaSettings {
+    return {
+        systemPrompt: persona.systemPrompt ?? config.systemPrompt,
+        temperature: persona.temperature ?? config.temperature,
+        topP: persona.topP ?? config.topP,
+        frequencyPenalty: persona.frequencyPenalty ?? config.frequencyPenalty,
+        presencePenalty: persona.presencePenalty ?? config.presencePenalty,
+        maxCompletionTokens: persona.maxCompletionTokens ?? config.maxCompletionTokens,
+        intervalMs: persona.intervalMs ?? config.intervalMs,
+        intervalJitterMs: persona.intervalJitterMs ?? config.intervalJitterMs,
+        talkChance: persona.talkChance ?? config.talkChance,
+        wordsPerMinute: persona.wordsPerMinute ?? config.wordsPerMinute
+    };
+}
+
+/**
+ * Return whether a pattern from `gamePersonas` matches the name of a game.
+ */
+function matchesGame(pattern: string, game: string): boolean {
+    const regex = pattern
+        .split("*")
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*");
+    return new RegExp(`^${regex}$`, "i").test(game);
+}
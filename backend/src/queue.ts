@@ -1,5 +1,5 @@
 export class Queue<T> {
-    private queue: T[] = [];
+    protected queue: T[] = [];
 
     /**
      * Add an item to the end of the queue.
@@ -30,6 +30,13 @@ export class Queue<T> {
         return this.queue.length;
     }
 
+    /**
+     * Return a copy of the items in the queue, from first to last.
+     */
+    public toArray(): T[] {
+        return [...this.queue];
+    }
+
     /**
      * Return whether the queue is empty.
      */
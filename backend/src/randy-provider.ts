@@ -0,0 +1,168 @@
+import { ChatCompletionCreateParamsNonStreaming } from "openai/src/resources/chat/completions";
+import {
+    DecisionProvider,
+    DecisionResponse,
+    textCompletion,
+    toolCallCompletion
+} from "./decision-provider";
+
+/** Things Randy says when he decides not to do anything */
+const RANDY_LINES = [
+    "I'm just going to wait and see what happens.",
+    "Hmm, let me think about that.",
+    "Did you know that I'm Jippity's half-brother?",
+    "I don't feel like doing anything right now.",
+    "Chat, what should I do?"
+];
+
+/** The chance that Randy will use a tool when he isn't forced to */
+const UNFORCED_ACTION_CHANCE = 0.5;
+
+/** The highest number of tools Randy will use at once, if parallel tool calls are allowed */
+const MAX_PARALLEL_TOOL_CALLS = 3;
+
+/** The highest number of items Randy will put in an array that doesn't have a `maxItems` */
+const DEFAULT_MAX_ITEMS = 3;
+
+/**
+ * Makes random decisions, similar to Randy from the Neuro SDK.
+ *
+ * Randy always uses a tool when the request requires one (i.e. during forced actions).
+ * Otherwise, he either uses a random tool or says something random.
+ * Tool arguments are generated from each action's JSON schema.
+ * If the request allows parallel tool calls, he sometimes uses several tools at once.
+ *
+ * If a seeded random function is provided, Randy's decisions are deterministic.
+ */
+export class RandyDecisionProvider implements DecisionProvider {
+    readonly name = "randy";
+    private readonly random: () => number;
+    private toolCallCount = 0;
+
+    /**
+     * @param random a function that returns a random number in [0, 1); use a seeded function for deterministic decisions
+     */
+    constructor(random: () => number = Math.random) {
+        this.random = random;
+    }
+
+    public async createChatCompletion(
+        body: ChatCompletionCreateParamsNonStreaming
+    ): Promise<DecisionResponse> {
+        const tools = body.tools ?? [];
+        const mustUseTool = body.tool_choice === "required";
+        if (tools.length === 0 || (!mustUseTool && this.random() >= UNFORCED_ACTION_CHANCE)) {
+            return textCompletion(body.model, this.pick(RANDY_LINES));
+        }
+
+        const toolCallCount = body.parallel_tool_calls
+            ? 1 + Math.floor(this.random() * MAX_PARALLEL_TOOL_CALLS)
+            : 1;
+        const toolCalls = Array.from({ length: toolCallCount }, () => {
+            const tool = this.pick(tools);
+            const parameters = tool.function.parameters ?? {};
+            // Actions without a schema are given an empty object, rather than `null`
+            const args =
+                Object.keys(parameters).length > 0
+                    ? generateValueFromSchema(parameters, this.random)
+                    : {};
+            return {
+                id: `call_randy_${++this.toolCallCount}`,
+                name: tool.function.name,
+                arguments: JSON.stringify(args)
+            };
+        });
+        return toolCallCompletion(body.model, toolCalls);
+    }
+
+    private pick<T>(items: T[]): T {
+        return items[Math.floor(this.random() * items.length)];
+    }
+}
+
+/**
+ * Generate a random value that matches a simple JSON schema.
+ *
+ * This supports the subset of JSON schema that Neuro supports, plus a few common extras.
+ * Unsupported keywords are ignored, so the generated value may not always be valid.
+ * @param schema the JSON schema
+ * @param random a function that returns a random number in [0, 1)
+ */
+export function generateValueFromSchema(schema: unknown, random: () => number): unknown {
+    if (typeof schema !== "object" || schema === null) {
+        return null;
+    }
+    const s = schema as Record<string, unknown>;
+    const randomInt = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+
+    if ("const" in s) {
+        return s.const;
+    }
+    if (Array.isArray(s.enum) && s.enum.length > 0) {
+        return s.enum[randomInt(0, s.enum.length - 1)];
+    }
+    for (const keyword of ["oneOf", "anyOf"]) {
+        const options = s[keyword];
+        if (Array.isArray(options) && options.length > 0) {
+            return generateValueFromSchema(options[randomInt(0, options.length - 1)], random);
+        }
+    }
+
+    let type = s.type;
+    if (Array.isArray(type)) {
+        type = type[randomInt(0, type.length - 1)];
+    }
+    if (type === undefined && typeof s.properties === "object") {
+        type = "object";
+    }
+
+    switch (type) {
+        case "object": {
+            const result: Record<string, unknown> = {};
+            const properties = (s.properties ?? {}) as Record<string, unknown>;
+            const required = Array.isArray(s.required) ? s.required : [];
+            for (const [name, propertySchema] of Object.entries(properties)) {
+                // Optional properties are included half of the time
+                if (required.includes(name) || random() < 0.5) {
+                    result[name] = generateValueFromSchema(propertySchema, random);
+                }
+            }
+            return result;
+        }
+        case "array": {
+            const minItems = typeof s.minItems === "number" ? s.minItems : 0;
+            const maxItems =
+                typeof s.maxItems === "number" ? s.maxItems : minItems + DEFAULT_MAX_ITEMS;
+            const length = randomInt(minItems, maxItems);
+            return Array.from({ length }, () => generateValueFromSchema(s.items ?? {}, random));
+        }
+        case "string": {
+            const minLength = typeof s.minLength === "number" ? s.minLength : 1;
+            const maxLength = typeof s.maxLength === "number" ? s.maxLength : minLength + 9;
+            const alphabet = "abcdefghijklmnopqrstuvwxyz";
+            const length = randomInt(minLength, maxLength);
+            return Array.from({ length }, () => alphabet[randomInt(0, alphabet.length - 1)]).join(
+                ""
+            );
+        }
+        case "integer":
+        case "number": {
+            let min = typeof s.minimum === "number" ? s.minimum : 0;
+            let max = typeof s.maximum === "number" ? s.maximum : min + 100;
+            if (typeof s.exclusiveMinimum === "number") {
+                min = s.exclusiveMinimum + (type === "integer" ? 1 : Number.EPSILON);
+            }
+            if (typeof s.exclusiveMaximum === "number") {
+                max = s.exclusiveMaximum - (type === "integer" ? 1 : Number.EPSILON);
+            }
+            if (type === "integer") {
+                return randomInt(Math.ceil(min), Math.floor(max));
+            }
+            return min + random() * (max - min);
+        }
+        case "boolean":
+            return random() < 0.5;
+        default:
+            return null;
+    }
+}
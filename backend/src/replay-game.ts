@@ -0,0 +1,171 @@
+// Acts as the game from a session recording, sending the recorded game messages to Jippity with the same timing.
+// Run Jippity, then run this with `npm run replay-game`
+//
+// Configured using the following environment variables:
+// REPLAY_GAME_FILE (the path to the recording), REPLAY_GAME_URL (defaults to ws://localhost:8000),
+// and REPLAY_GAME_SPEED (a multiplier for the playback speed, defaults to 1)
+
+import "dotenv/config";
+
+import { WebSocket } from "ws";
+import { ActionMessage } from "./api-types";
+import { log } from "./logging";
+import { loadRecording, RecordingEvent } from "./session-recorder";
+import { sleep } from "./utils";
+
+/** How long to wait for Jippity to send an action before giving up on the replay */
+const ACTION_TIMEOUT_MS = 60_000;
+
+export interface GameReplayOptions {
+    /** The URL of Jippity's WebSocket server */
+    url: string;
+    /** A multiplier for the playback speed; `2` replays twice as fast */
+    speed: number;
+}
+
+/**
+ * Replays the game side of a session recording against a live Jippity.
+ *
+ * Action results are only sent once Jippity has sent the corresponding action.
+ * The Nth action received is matched with the Nth recorded action, and the ID in the result is changed to match.
+ * If Jippity makes the same decisions as in the recording (e.g. with the `replay` decision provider),
+ * the replayed session is identical to the original.
+ */
+export class GameReplayer {
+    private readonly events: RecordingEvent[];
+    private readonly options: GameReplayOptions;
+    /** The actions recorded in the original session, in order */
+    private readonly recordedActions: ActionMessage[];
+    /** The actions received from Jippity during the replay, in order */
+    private readonly liveActions: ActionMessage[] = [];
+    private onAction: (() => void) | undefined = undefined;
+
+    constructor(events: RecordingEvent[], options: GameReplayOptions) {
+        this.events = events;
+        this.options = options;
+        this.recordedActions = events.flatMap((event) =>
+            event.type === "jippity-message" && event.message.command === "action"
+                ? [event.message]
+                : []
+        );
+    }
+
+    /**
+     * Connect to Jippity and send every recorded game message.
+     */
+    public async run(): Promise<void> {
+        const ws = new WebSocket(this.options.url);
+        ws.on("message", (data) => {
+            const message = JSON.parse(data.toString());
+            if (message.command === "action") {
+                log.info(`Jippity sent action: ${JSON.stringify(message.data)}`);
+                this.liveActions.push(message);
+                this.onAction?.();
+            }
+        });
+        await new Promise<void>((resolve, reject) => {
+            ws.once("open", () => resolve());
+            ws.once("error", reject);
+        });
+        log.info(`Connected to ${this.options.url}; replaying ${this.events.length} events`);
+
+        let lastTime = 0;
+        for (const event of this.events) {
+            if (event.type !== "game-message") {
+                continue;
+            }
+            let data = event.data;
+            const resultFor = this.findRecordedAction(data);
+            if (resultFor) {
+                const { index, recordedAction } = resultFor;
+                const liveAction = await this.waitForLiveAction(index);
+                if (liveAction.data.name !== recordedAction.data.name) {
+                    log.warn(
+                        `Replay diverged: Jippity sent "${liveAction.data.name}" instead of "${recordedAction.data.name}"`
+                    );
+                }
+                // The result is sent as long after the live action as it was after the recorded action
+                const recordedActionTime = this.actionTime(recordedAction);
+                await this.wait(event.time - recordedActionTime);
+                const message = JSON.parse(data);
+                message.data.id = liveAction.data.id;
+                data = JSON.stringify(message);
+            } else {
+                await this.wait(event.time - lastTime);
+            }
+            lastTime = event.time;
+            log.info(`Sending: ${data}`);
+            ws.send(data);
+        }
+        log.info("Replay finished");
+        ws.close();
+    }
+
+    /**
+     * If a raw game message is an action result, find the recorded action it is a result for.
+     * @param data the raw game message
+     */
+    private findRecordedAction(
+        data: string
+    ): { index: number; recordedAction: ActionMessage } | undefined {
+        let message;
+        try {
+            message = JSON.parse(data);
+        } catch {
+            return undefined;
+        }
+        if (message?.command !== "action/result") {
+            return undefined;
+        }
+        const index = this.recordedActions.findIndex((x) => x.data.id === message.data?.id);
+        return index === -1 ? undefined : { index, recordedAction: this.recordedActions[index] };
+    }
+
+    private actionTime(action: ActionMessage): number {
+        const event = this.events.find((x) => x.type === "jippity-message" && x.message === action);
+        return event?.time ?? 0;
+    }
+
+    private async waitForLiveAction(index: number): Promise<ActionMessage> {
+        const deadline = Date.now() + ACTION_TIMEOUT_MS;
+        while (!this.liveActions[index]) {
+            const remaining = deadline - Date.now();
+            if (remaining <= 0) {
+                throw new Error(`Timed out waiting for Jippity to send action #${index + 1}`);
+            }
+            await new Promise<void>((resolve) => {
+                const timeout = setTimeout(resolve, remaining);
+                this.onAction = () => {
+                    clearTimeout(timeout);
+                    resolve();
+                };
+            });
+        }
+        this.onAction = undefined;
+        return this.liveActions[index];
+    }
+
+    private async wait(recordedDelayMs: number) {
+        if (recordedDelayMs > 0) {
+            await sleep(recordedDelayMs / this.options.speed);
+        }
+    }
+}
+
+if (require.main === module) {
+    const file = process.env.REPLAY_GAME_FILE;
+    if (!file) {
+        throw new Error("REPLAY_GAME_FILE must be set to the path of a session recording");
+    }
+    const replayer = new GameReplayer(loadRecording(file), {
+        url: process.env.REPLAY_GAME_URL || "ws://localhost:8000",
+        speed: parseFloat(process.env.REPLAY_GAME_SPEED ?? "") || 1
+    });
+    replayer.run().then(
+        () => process.exit(0),
+        (e) => {
+            log.error("Replay failed", e);
+            process.exit(1);
+        }
+    );
+}
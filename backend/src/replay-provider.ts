@@ -0,0 +1,70 @@
+import OpenAI from "openai";
+import { ChatCompletionCreateParamsNonStreaming } from "openai/src/resources/chat/completions";
+import { DecisionProvider, DecisionResponse, textCompletion } from "./decision-provider";
+import { log } from "./logging";
+import { loadRecording, RecordedError, RecordingEvent } from "./session-recorder";
+
+type RecordedDecision = Extract<RecordingEvent, { type: "decision-response" | "decision-error" }>;
+
+/**
+ * Replays the decisions from a session recording, one per request, in the order they were made.
+ *
+ * Recorded errors are thrown again, so Jippity recovers from them the same way it did during the recording.
+ * Once every decision has been used, the provider responds with text.
+ */
+export class ReplayDecisionProvider implements DecisionProvider {
+    readonly name = "replay";
+    private readonly decisions: RecordedDecision[];
+    private nextIndex = 0;
+
+    /**
+     * @param events the events of a session recording; only decision responses and errors are used
+     */
+    constructor(events: RecordingEvent[]) {
+        this.decisions = events.filter(
+            (event): event is RecordedDecision =>
+                event.type === "decision-response" || event.type === "decision-error"
+        );
+    }
+
+    /**
+     * Load the decisions from a session recording.
+     * @param path the path to the recording file
+     */
+    public static fromFile(path: string): ReplayDecisionProvider {
+        return new ReplayDecisionProvider(loadRecording(path));
+    }
+
+    public async createChatCompletion(
+        body: ChatCompletionCreateParamsNonStreaming
+    ): Promise<DecisionResponse> {
+        const decision = this.decisions[this.nextIndex];
+        if (!decision) {
+            if (this.nextIndex === this.decisions.length) {
+                log.warn("The recording has ended; all further responses will be text");
+                this.nextIndex++;
+            }
+            return textCompletion(body.model, "I don't remember what happened next.");
+        }
+        this.nextIndex++;
+
+        if (decision.type === "decision-error") {
+            throw recreateError(decision.error);
+        }
+        return decision.response;
+    }
+}
+
+/**
+ * Recreate a recorded error, so that it is classified the same way as the original.
+ * @param error the recorded error
+ */
+function recreateError(error: RecordedError): Error {
+    if (error.status !== undefined) {
+        return OpenAI.APIError.generate(error.status, undefined, error.message, {});
+    }
+    if (error.name === "APIConnectionError") {
+        return new OpenAI.APIConnectionError({ message: error.message });
+    }
+    return new Error(error.message);
+}
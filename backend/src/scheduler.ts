@@ -0,0 +1,170 @@
+import { JippityHandler } from "./jippity-handler";
+import { log } from "./logging";
+
+export interface SchedulerOptions {
+    /** The time in milliseconds that Jippity stays idle before saying/doing something unprompted */
+    intervalMs: number;
+    /** A random amount of time, up to this many milliseconds, is added to or removed from each interval */
+    jitterMs: number;
+    /** The chance (from 0 to 1) that Jippity will say/do something when the interval is up */
+    talkChance: number;
+    /** Returns a random number in [0, 1); deterministic if a random seed is configured */
+    random: () => number;
+}
+
+/**
+ * Decides when a {@link JippityHandler} should do something.
+ *
+ * Instead of polling, the scheduler reacts to state changes and queued messages as soon as they happen:
+ * - when Jippity becomes idle, queued messages from the game are handled first
+ * - if there is nothing left to handle, a timer is started for unprompted chatter
+ * - when Jippity is taking a break after too many errors, a timer is started for when he can try again
+ * - when Jippity is talking, a timer is started for when he is done
+ * - when Jippity is paused, nothing happens until he is resumed
+ * - when an operator is in control, queued messages are still handled, but there is no unprompted chatter
+ */
+export class Scheduler {
+    private readonly handler: JippityHandler;
+    private readonly options: SchedulerOptions;
+    private timer: NodeJS.Timeout | undefined = undefined;
+    private wakeScheduled = false;
+    private stopped = false;
+    private readonly onWake = () => this.wake();
+
+    constructor(handler: JippityHandler, options: SchedulerOptions) {
+        this.handler = handler;
+        this.options = options;
+    }
+
+    /**
+     * Start reacting to the handler's events.
+     */
+    public start() {
+        this.handler.on("stateChange", this.onWake);
+        this.handler.on("messageQueued", this.onWake);
+        this.handler.on("pausedChange", this.onWake);
+        this.handler.on("operatorModeChange", this.onWake);
+        this.wake();
+    }
+
+    /**
+     * Stop reacting to the handler's events and cancel any pending timers.
+     */
+    public stop() {
+        if (this.stopped) {
+            return;
+        }
+        this.stopped = true;
+        this.clearTimer();
+        this.handler.off("stateChange", this.onWake);
+        this.handler.off("messageQueued", this.onWake);
+        this.handler.off("pausedChange", this.onWake);
+        this.handler.off("operatorModeChange", this.onWake);
+        log.debug(`Scheduler for ${this.handler.sessionId} stopped`);
+    }
+
+    /**
+     * Re-evaluate what the handler should do next.
+     *
+     * Several events in a row (e.g. a state change caused by a queued message) only result in a single evaluation.
+     */
+    public wake() {
+        if (this.wakeScheduled || this.stopped) {
+            return;
+        }
+        this.wakeScheduled = true;
+        setImmediate(() => {
+            this.wakeScheduled = false;
+            this.tick();
+        });
+    }
+
+    private tick() {
+        if (this.stopped) {
+            return;
+        }
+        const handler = this.handler;
+        if (handler.closed || handler.state.id === "state/exiting") {
+            this.stop();
+            return;
+        }
+        this.clearTimer();
+        if (handler.state.id === "state/talking") {
+            // Jippity finishes talking even while he is paused
+            const delay = Math.max(handler.state.until - Date.now(), 0);
+            this.timer = setTimeout(() => {
+                if (handler.state.id === "state/talking") {
+                    handler.finishTalking();
+                }
+            }, delay);
+            return;
+        }
+        if (handler.paused) {
+            // Resuming Jippity will wake the scheduler
+            log.debug(`${handler.sessionId} is paused`);
+            return;
+        }
+
+        switch (handler.state.id) {
+            case "state/idle":
+                if (handler.messageQueue.isNotEmpty()) {
+                    log.debug("Processing message queue...");
+                    handler.processMessageQueue();
+                    // If Jippity is still idle, the state didn't change, so nothing else will wake the scheduler
+                    if (handler.state.id === "state/idle") {
+                        this.wake();
+                    }
+                    return;
+                }
+                if (handler.operatorMode) {
+                    log.debug(
+                        "The operator is in control, so Jippity won't say anything unprompted"
+                    );
+                    return;
+                }
+                this.startChatterTimer();
+                return;
+            case "state/degraded": {
+                const delay = Math.max(handler.state.retryAt - Date.now(), 0);
+                log.debug(`Jippity is taking a break after too many errors for ${delay} ms`);
+                this.timer = setTimeout(() => {
+                    if (handler.state.id === "state/degraded") {
+                        handler.recoverFromDegradedState();
+                    }
+                }, delay);
+                return;
+            }
+            default:
+                // Jippity is busy or waiting for the game; the next state change will wake the scheduler
+                log.debug(`Waiting for a state change (current state is ${handler.state.id})`);
+                return;
+        }
+    }
+
+    private startChatterTimer() {
+        const { intervalMs, jitterMs, talkChance, random } = this.options;
+        const delay = Math.max(intervalMs + (random() * 2 - 1) * jitterMs, 0);
+        log.debug(`Idle... (activating the AI in ${Math.round(delay)} ms)`);
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            const handler = this.handler;
+            if (handler.state.id !== "state/idle" || handler.messageQueue.isNotEmpty()) {
+                this.wake();
+                return;
+            }
+            if (random() >= talkChance) {
+                log.debug("Jippity decided not to say anything this time");
+                this.startChatterTimer();
+                return;
+            }
+            handler.callOpenAI();
+        }, delay);
+    }
+
+    private clearTimer() {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+}
@@ -0,0 +1,108 @@
+import fs from "node:fs";
+import { ChatCompletionCreateParamsNonStreaming } from "openai/src/resources/chat/completions";
+import {
+    DecisionProvider,
+    DecisionResponse,
+    textCompletion,
+    toolCallCompletion
+} from "./decision-provider";
+import { log } from "./logging";
+
+/**
+ * A single decision in a script.
+ *
+ * @example { "type": "say", "text": "Hello chat!" }
+ * @example { "type": "action", "name": "use_item", "data": { "item_id": "can_of_beans" } }
+ * @example { "type": "action", "name": "use_item", "data": "this is not valid JSON" }
+ * @example { "type": "actions", "actions": [{ "name": "jump" }, { "name": "use_item", "data": { "item_id": "soda" } }] }
+ */
+export type ScriptedDecision =
+    | { type: "say"; text: string }
+    | ({ type: "action" } & ScriptedAction)
+    /** Several tools used at once, which are only all sent if parallel actions are enabled */
+    | { type: "actions"; actions: ScriptedAction[] };
+
+/**
+ * An action in a script.
+ */
+export interface ScriptedAction {
+    name: string;
+    /** Objects are JSON-stringified; strings are sent as-is, so invalid data can be tested */
+    data?: object | string;
+}
+
+/**
+ * Replays a fixed list of decisions, one per request, regardless of what the conversation looks like.
+ *
+ * Once every decision has been used, the provider responds with text.
+ */
+export class ScriptedDecisionProvider implements DecisionProvider {
+    readonly name = "scripted";
+    private readonly decisions: ScriptedDecision[];
+    private nextIndex = 0;
+
+    constructor(decisions: ScriptedDecision[]) {
+        this.decisions = decisions;
+    }
+
+    /**
+     * Load a script from a JSON file containing an array of {@link ScriptedDecision}s.
+     * @param path the path to the JSON file
+     */
+    public static fromFile(path: string): ScriptedDecisionProvider {
+        const decisions: unknown = JSON.parse(fs.readFileSync(path, "utf-8"));
+        if (!Array.isArray(decisions)) {
+            throw new Error(`Script file "${path}" must contain a JSON array`);
+        }
+        decisions.forEach((decision, index) => {
+            const valid =
+                (decision?.type === "say" && typeof decision.text === "string") ||
+                (decision?.type === "action" && typeof decision.name === "string") ||
+                (decision?.type === "actions" &&
+                    Array.isArray(decision.actions) &&
+                    decision.actions.length > 0 &&
+                    decision.actions.every(
+                        (action: Partial<ScriptedAction> | null) => typeof action?.name === "string"
+                    ));
+            if (!valid) {
+                throw new Error(
+                    `Decision ${index} in script file "${path}" is invalid: ${JSON.stringify(decision)}`
+                );
+            }
+        });
+        return new ScriptedDecisionProvider(decisions);
+    }
+
+    public async createChatCompletion(
+        body: ChatCompletionCreateParamsNonStreaming
+    ): Promise<DecisionResponse> {
+        const decision = this.decisions[this.nextIndex];
+        if (!decision) {
+            if (this.nextIndex === this.decisions.length) {
+                log.warn("The decision script has ended; all further responses will be text");
+                this.nextIndex++;
+            }
+            return textCompletion(body.model, "I've run out of things to do.");
+        }
+        this.nextIndex++;
+
+        if (decision.type === "say") {
+            return textCompletion(body.model, decision.text);
+        }
+        const actions = decision.type === "actions" ? decision.actions : [decision];
+        return toolCallCompletion(
+            body.model,
+            actions.map((action, index) => ({
+                id:
+                    decision.type === "actions"
+                        ? `call_scripted_${this.nextIndex}_${index + 1}`
+                        : `call_scripted_${this.nextIndex}`,
+                name: action.name,
+                arguments:
+                    typeof action.data === "string"
+                        ? action.data
+                        : JSON.stringify(action.data ?? {})
+            }))
+        );
+    }
+}
@@ -0,0 +1,225 @@
+import { WebSocket } from "ws";
+import assert from "node:assert";
+import { EventEmitter } from "node:events";
+import { Message } from "./api-types";
+import { JippityHandler } from "./jippity-handler";
+import { log } from "./logging";
+import {
+    chatSimulatorOptions,
+    config,
+    createChatSource,
+    createDecisionProvider,
+    createRandom
+} from "./index";
+import { Scheduler } from "./scheduler";
+import { writeConformanceReport } from "./conformance";
+import { SessionRecorder } from "./session-recorder";
+import { ChatSimulator } from "./chat-simulator";
+
+// ***************************
+// * Per-Connection Sessions *
+// ***************************
+
+/**
+ * Events emitted by {@link SessionManager}.
+ */
+export type SessionManagerEvents = {
+    sessionCreated: [handler: JippityHandler];
+    sessionClosed: [handler: JippityHandler];
+};
+
+/**
+ * Keeps track of one {@link JippityHandler} per WebSocket connection.
+ *
+ * Each connection (i.e. each game) gets its own registered actions, conversation history, and state machine.
+ * Actions chosen by the AI are only sent to the connection that owns the session.
+ */
+export class SessionManager extends EventEmitter<SessionManagerEvents> {
+    private sessions = new Map<WebSocket, JippityHandler>();
+    private schedulers = new Map<JippityHandler, Scheduler>();
+    private recorders = new Map<JippityHandler, SessionRecorder>();
+    private chatSimulators = new Map<JippityHandler, ChatSimulator>();
+    private nextSessionNumber = 1;
+
+    /**
+     * Create a new session for a WebSocket connection and start its scheduler (and chat simulator, if configured).
+     * @param ws the WebSocket connection that will own the session
+     */
+    public createSession(ws: WebSocket): JippityHandler {
+        assert(!this.sessions.has(ws), "A session already exists for this WebSocket connection");
+
+        const sessionId = `session-${this.nextSessionNumber++}`;
+        const handler = new JippityHandler(
+            sessionId,
+            (message) => sendToConnection(ws, message),
+            createDecisionProvider()
+        );
+        this.sessions.set(ws, handler);
+        log.info(`Created ${sessionId}; there are now ${this.sessions.size} sessions`);
+        // Neuro closes the game once it is ready to shut down, which ends the connection
+        handler.on("shutdownReady", () => this.disconnect(sessionId));
+        handler.on("misdirectedMessage", (data, game) => this.routeMessage(handler, data, game));
+
+        if (config.recordingDir) {
+            const recorder = SessionRecorder.create(config.recordingDir, sessionId);
+            recorder.attach(handler);
+            this.recorders.set(handler, recorder);
+            log.info(`Recording ${sessionId} to ${recorder.path}`);
+        }
+
+        // Getters, so that changes to the configuration and the persona apply right away
+        const scheduler = new Scheduler(handler, {
+            get intervalMs() {
+                return handler.settings().intervalMs;
+            },
+            get jitterMs() {
+                return Math.min(handler.settings().intervalJitterMs, handler.settings().intervalMs);
+            },
+            get talkChance() {
+                return handler.settings().talkChance;
+            },
+            random: createRandom()
+        });
+        this.schedulers.set(handler, scheduler);
+        scheduler.start();
+
+        const chatSource = createChatSource();
+        if (chatSource) {
+            const chatSimulator = new ChatSimulator(handler, chatSource, chatSimulatorOptions());
+            this.chatSimulators.set(handler, chatSimulator);
+            chatSimulator.start();
+        }
+        this.emit("sessionCreated", handler);
+        return handler;
+    }
+
+    /**
+     * Return the session owned by a WebSocket connection, if there is one.
+     * @param ws the WebSocket connection
+     */
+    public getSession(ws: WebSocket): JippityHandler | undefined {
+        return this.sessions.get(ws);
+    }
+
+    /**
+     * Return the session with the given ID, if there is one.
+     * @param sessionId the ID of the session
+     */
+    public getSessionById(sessionId: string): JippityHandler | undefined {
+        return this.allSessions().find((handler) => handler.sessionId === sessionId);
+    }
+
+    /**
+     * Close the WebSocket connection that owns a session; the session is closed once the connection is.
+     * @param sessionId the ID of the session
+     * @returns `false` if there is no session with that ID
+     */
+    public disconnect(sessionId: string): boolean {
+        for (const [ws, handler] of this.sessions) {
+            if (handler.sessionId === sessionId) {
+                log.info(`Disconnecting ${sessionId}`);
+                ws.close(1000, "Disconnected by Jippity");
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Pass a message on to the session that is playing the game it is for.
+     * @param from the session that received the message
+     * @param data the message exactly as it was received
+     * @param game the game the message is for
+     */
+    private routeMessage(from: JippityHandler, data: string, game: string) {
+        const target = this.allSessions().find(
+            (handler) => handler !== from && handler.game === game
+        );
+        if (!target) {
+            log.error(
+                `No session is playing "${game}"; ignoring the message from ${from.sessionId}`
+            );
+            return;
+        }
+        log.info(`Routing a message from ${from.sessionId} to ${target.sessionId}`);
+        target.receiveMessage(data);
+    }
+
+    /**
+     * Stop and remove the session owned by a WebSocket connection.
+     * @param ws the WebSocket connection
+     */
+    public closeSession(ws: WebSocket) {
+        const handler = this.sessions.get(ws);
+        if (!handler) {
+            return;
+        }
+        this.schedulers.get(handler)?.stop();
+        this.schedulers.delete(handler);
+        this.chatSimulators.get(handler)?.stop();
+        this.chatSimulators.delete(handler);
+        handler.close();
+        this.recorders.get(handler)?.close();
+        this.recorders.delete(handler);
+        this.sessions.delete(ws);
+        log.info(`Closed ${handler.sessionId}; there are now ${this.sessions.size} sessions`);
+        reportConformance(handler);
+        this.emit("sessionClosed", handler);
+    }
+
+    /**
+     * Return all active sessions.
+     */
+    public allSessions(): JippityHandler[] {
+        return [...this.sessions.values()];
+    }
+}
+
+/**
+ * Log a summary of a session's conformance report, and write the full report if a directory is configured.
+ * @param handler the session
+ */
+function reportConformance(handler: JippityHandler) {
+    const report = handler.conformance.report();
+    const problems = report.checks
+        .filter((check) => check.status !== "pass")
+        .map((check) => `${check.id} (${check.violations})`);
+    log.info(
+        `Conformance for ${handler.sessionId}: ${report.status.toUpperCase()}` +
+            (problems.length > 0 ? `; problems: ${problems.join(", ")}` : "")
+    );
+    const reportDir = config.conformanceReportDir;
+    if (!reportDir) {
+        return;
+    }
+    try {
+        const reportPath = writeConformanceReport(report, reportDir);
+        log.info(`Wrote conformance report to ${reportPath}`);
+    } catch (e) {
+        log.error(`Failed to write conformance report to ${reportDir}`, e);
+    }
+}
+
+/**
+ * Send a message to a single WebSocket connection.
+ * @param ws the WebSocket connection
+ * @param message the message to send
+ *
+ * **Note**: Errors sending messages are logged, but errors are not thrown.
+ */
+function sendToConnection(ws: WebSocket, message: Message) {
+    assert(message.command, 'Messages must always have a "command" property');
+
+    if (ws.readyState !== WebSocket.OPEN) {
+        log.warn(
+            `Attempted to send a "${message.command}" message to a closed WebSocket connection`
+        );
+        return;
+    }
+
+    ws.send(JSON.stringify(message), (err) => {
+        if (err) {
+            log.error("Error sending message to WebSocket connection", err);
+        }
+    });
+}
@@ -0,0 +1,151 @@
+import fs from "node:fs";
+import path from "node:path";
+import OpenAI from "openai";
+import { ChatCompletionCreateParamsNonStreaming } from "openai/src/resources/chat/completions";
+import { Message } from "./api-types";
+import { DecisionResponse } from "./decision-provider";
+import { JippityHandler } from "./jippity-handler";
+import { State } from "./jippity-types";
+import { log } from "./logging";
+
+/**
+ * An error thrown by a decision provider, in a form that can be written to a recording.
+ */
+export interface RecordedError {
+    name: string;
+    message: string;
+    /** The HTTP status code, for errors returned by the OpenAI API */
+    status?: number;
+}
+
+/**
+ * A single line of a session recording.
+ *
+ * `time` is the number of milliseconds since the recording started.
+ */
+export type RecordingEvent =
+    | { type: "session-start"; time: number; sessionId: string; startedAt: string }
+    /** A message from the game, exactly as it was received (it may not be valid) */
+    | { type: "game-message"; time: number; data: string }
+    /** A message sent to the game by Jippity */
+    | { type: "jippity-message"; time: number; message: Message }
+    | { type: "state-change"; time: number; state: State }
+    | { type: "decision-request"; time: number; body: ChatCompletionCreateParamsNonStreaming }
+    | { type: "decision-response"; time: number; response: DecisionResponse }
+    | { type: "decision-error"; time: number; error: RecordedError }
+    | { type: "session-end"; time: number };
+
+/** Removes `time` from each member of a union of {@link RecordingEvent}s */
+type Untimed<E> = E extends RecordingEvent ? Omit<E, "time"> : never;
+type UntimedRecordingEvent = Untimed<RecordingEvent>;
+
+/**
+ * Writes everything that happens in a session to a JSONL file, one {@link RecordingEvent} per line.
+ *
+ * Recordings can be replayed with the `replay` decision provider (to act as Jippity)
+ * or with `npm run replay-game` (to act as the game).
+ */
+export class SessionRecorder {
+    /** The path of the recording file */
+    readonly path: string;
+    private readonly stream: fs.WriteStream;
+    private readonly startTime = Date.now();
+    private closed = false;
+
+    /**
+     * @param filePath the path of the recording file; it is overwritten if it exists
+     */
+    constructor(filePath: string) {
+        this.path = filePath;
+        this.stream = fs.createWriteStream(filePath);
+        this.stream.on("error", (e) => log.error(`Failed to write recording ${filePath}`, e));
+    }
+
+    /**
+     * Create a recorder that writes to a new timestamped file.
+     * @param directory the directory to write to; created if it doesn't exist
+     * @param sessionId the ID of the session being recorded
+     */
+    public static create(directory: string, sessionId: string): SessionRecorder {
+        fs.mkdirSync(directory, { recursive: true });
+        const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+        return new SessionRecorder(path.join(directory, `session-${timestamp}-${sessionId}.jsonl`));
+    }
+
+    /**
+     * Start recording everything a handler receives, sends, and decides.
+     * @param handler the handler to record
+     */
+    public attach(handler: JippityHandler) {
+        this.record({
+            type: "session-start",
+            sessionId: handler.sessionId,
+            startedAt: new Date(this.startTime).toISOString()
+        });
+        handler.on("messageReceived", (data) => this.record({ type: "game-message", data }));
+        handler.on("messageSent", (message) => this.record({ type: "jippity-message", message }));
+        handler.on("stateChange", (state) => this.record({ type: "state-change", state }));
+        handler.on("decisionRequested", (body) => this.record({ type: "decision-request", body }));
+        handler.on("decisionReceived", (response) =>
+            this.record({ type: "decision-response", response })
+        );
+        handler.on("decisionFailed", (error) =>
+            this.record({ type: "decision-error", error: toRecordedError(error) })
+        );
+    }
+
+    /**
+     * Add an event to the recording. Events recorded after {@link close} are ignored.
+     * @param event the event
+     */
+    public record(event: UntimedRecordingEvent) {
+        if (this.closed) {
+            return;
+        }
+        this.stream.write(JSON.stringify({ ...event, time: Date.now() - this.startTime }) + "\n");
+    }
+
+    /**
+     * Finish the recording and close the file.
+     */
+    public close() {
+        this.record({ type: "session-end" });
+        this.closed = true;
+        this.stream.end();
+    }
+}
+
+function toRecordedError(error: unknown): RecordedError {
+    if (error instanceof OpenAI.APIError) {
+        return { name: error.name, message: error.message, status: error.status };
+    }
+    if (error instanceof Error) {
+        return { name: error.name, message: error.message };
+    }
+    return { name: "Error", message: String(error) };
+}
+
+/**
+ * Load a recording written by a {@link SessionRecorder}.
+ * @param filePath the path of the recording file
+ */
+export function loadRecording(filePath: string): RecordingEvent[] {
+    const lines = fs
+        .readFileSync(filePath, "utf-8")
+        .split("\n")
+        .filter((line) => line.trim().length > 0);
+    return lines.map((line, index) => {
+        let event;
+        try {
+            event = JSON.parse(line);
+        } catch (e) {
+            throw new Error(`Line ${index + 1} of recording "${filePath}" is not valid JSON: ${e}`);
+        }
+        if (typeof event?.type !== "string" || typeof event.time !== "number") {
+            throw new Error(
+                `Line ${index + 1} of recording "${filePath}" is not a recording event`
+            );
+        }
+        return event as RecordingEvent;
+    });
+}
@@ -0,0 +1,165 @@
+import fs from "node:fs";
+import path from "node:path";
+import { spawn } from "node:child_process";
+import { log } from "./logging";
+
+/** How long a TTS command may run before it is stopped */
+const COMMAND_TIMEOUT_MS = 30_000;
+
+/**
+ * Something Jippity said out loud.
+ */
+export interface Utterance {
+    sessionId: string;
+    /** What Jippity said */
+    text: string;
+    /** When Jippity started saying it, as an ISO 8601 timestamp; use this to line the audio up with game footage */
+    timestamp: string;
+    /** The path to the WAV file */
+    file: string;
+    durationMs: number;
+}
+
+/**
+ * Turns Jippity's text responses into WAV files using an external command, such as `espeak-ng` or `piper`.
+ *
+ * The command is a template with the following placeholders, which are replaced in each argument:
+ * - `{output}`: the path of the WAV file the command must write
+ * - `{text}`: the text to say; if this isn't used, the text is written to the command's standard input instead
+ *
+ * The command isn't run in a shell, so the text doesn't need to be escaped.
+ *
+ * @example espeak-ng -w {output} {text}
+ * @example piper --model en_US-lessac-medium.onnx --output_file {output}
+ */
+export class TextToSpeech {
+    /** The command template */
+    readonly command: string;
+    /** The directory WAV files are written to */
+    readonly outputDir: string;
+    private readonly args: string[];
+    private utteranceCount = 0;
+
+    /**
+     * @param command the command template
+     * @param outputDir the directory WAV files are written to; an `utterances.jsonl` file in it lists every utterance
+     */
+    constructor(command: string, outputDir: string) {
+        this.command = command;
+        this.args = splitCommand(command);
+        if (this.args.length === 0) {
+            throw new Error("The TTS command is empty");
+        }
+        this.outputDir = outputDir;
+        fs.mkdirSync(outputDir, { recursive: true });
+    }
+
+    /**
+     * Turn text into a WAV file.
+     * @param sessionId the session Jippity is talking in, used in the file name
+     * @param text the text to say
+     * @returns the path to the WAV file and how long it takes to play
+     */
+    public async synthesize(
+        sessionId: string,
+        text: string
+    ): Promise<{ file: string; durationMs: number }> {
+        // The timestamp keeps files from earlier runs from being overwritten
+        const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+        const index = ++this.utteranceCount;
+        const file = path.resolve(this.outputDir, `speech-${timestamp}-${sessionId}-${index}.wav`);
+        const usesTextArgument = this.args.some((arg) => arg.includes("{text}"));
+        const args = this.args.map((arg) =>
+            arg.replaceAll("{output}", file).replaceAll("{text}", text)
+        );
+        await runCommand(args, usesTextArgument ? undefined : text);
+        const durationMs = wavDurationMs(await fs.promises.readFile(file));
+        return { file: file, durationMs: durationMs };
+    }
+
+    /**
+     * Add an utterance to the `utterances.jsonl` file in the output directory.
+     * @param utterance the utterance, once Jippity has started saying it
+     */
+    public recordUtterance(utterance: Utterance) {
+        fs.appendFile(
+            path.join(this.outputDir, "utterances.jsonl"),
+            JSON.stringify(utterance) + "\n",
+            (err) => {
+                if (err) {
+                    log.error(`Failed to record utterance in ${this.outputDir}`, err);
+                }
+            }
+        );
+    }
+}
+
+/**
+ * Split a command into arguments at whitespace, keeping quoted arguments together.
+ */
+function splitCommand(command: string): string[] {
+    return (command.match(/"[^"]*"|'[^']*'|\S+/g) ?? []).map((arg) =>
+        /^(["']).*\1$/.test(arg) ? arg.slice(1, -1) : arg
+    );
+}
+
+/**
+ * Run a command and wait for it to exit successfully.
+ * @param args the command and its arguments
+ * @param input written to the command's standard input, if provided
+ */
+function runCommand(args: string[], input: string | undefined): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const child = spawn(args[0], args.slice(1), {
+            stdio: ["pipe", "ignore", "pipe"],
+            timeout: COMMAND_TIMEOUT_MS
+        });
+        let stderr = "";
+        child.stderr.on("data", (chunk) => (stderr += chunk));
+        child.on("error", reject);
+        child.on("close", (code, signal) => {
+            if (code === 0) {
+                resolve();
+            } else {
+                reject(
+                    new Error(
+                        `TTS command "${args[0]}" exited with ${signal ?? `code ${code}`}: ${stderr.trim()}`
+                    )
+                );
+            }
+        });
+        child.stdin.on("error", () => {
+            // The command may exit without reading its input; the exit code is what matters
+        });
+        child.stdin.end(input);
+    });
+}
+
+/**
+ * Return how long a WAV file takes to play, in milliseconds.
+ * @param wav the contents of the WAV file
+ */
+export function wavDurationMs(wav: Buffer): number {
+    if (wav.toString("ascii", 0, 4) !== "RIFF" || wav.toString("ascii", 8, 12) !== "WAVE") {
+        throw new Error("Not a WAV file");
+    }
+    let byteRate: number | undefined = undefined;
+    let offset = 12;
+    while (offset + 8 <= wav.length) {
+        const chunkId = wav.toString("ascii", offset, offset + 4);
+        let chunkSize = wav.readUInt32LE(offset + 4);
+        if (chunkId === "fmt ") {
+            byteRate = wav.readUInt32LE(offset + 16);
+        } else if (chunkId === "data") {
+            if (!byteRate) {
+                throw new Error('The WAV file has no "fmt " chunk before its "data" chunk');
+            }
+            // Commands that write to a pipe don't know the final size, so they may leave it at the maximum
+            chunkSize = Math.min(chunkSize, wav.length - offset - 8);
+            return Math.round((chunkSize / byteRate) * 1000);
+        }
+        // Chunks are padded to an even number of bytes
+        offset += 8 + chunkSize + (chunkSize % 2);
+    }
+    throw new Error('The WAV file has no "data" chunk');
+}
@@ -21,6 +21,37 @@ export function sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/**
+ * Create a pseudo-random number generator that always produces the same sequence for the same seed.
+ *
+ * This uses the mulberry32 algorithm, which is fast and good enough for testing purposes.
+ * @param seed the seed
+ * @returns a function that returns a number in [0, 1), like `Math.random`
+ */
+export function createSeededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Return how long it would take to say some text out loud, in milliseconds.
+ * @param text the text
+ * @param wordsPerMinute how fast the text is said
+ */
+export function speechDurationMs(text: string, wordsPerMinute: number): number {
+    if (wordsPerMinute <= 0) {
+        return 0;
+    }
+    const wordCount = text.split(/\s+/).filter((word) => word.length > 0).length;
+    return Math.round((wordCount / wordsPerMinute) * 60_000);
+}
+
 /**
  * Convert an {@link Action} (used by the Neuro Game API) into a {@link ChatCompletionTool} (used by the OpenAI API).
  *
@@ -50,13 +81,17 @@ export function convertForcedActionMessageToOpenAIMessage(
     actionState: "before-result" | "after-result"
 ): ChatCompletionUserMessageParam {
     let content = "";
-    if (forcedAction.data.ephemeral_context || actionState === "before-result") {
+    if (!forcedAction.data.ephemeral_context || actionState === "before-result") {
         content += `${forcedAction.data.query}\n\n`;
         if (forcedAction.data.state) {
             content += `Game state: ${forcedAction.data.state}\n\n`;
         }
     }
-    content += `You must use one of the following tools: ${forcedAction.data.action_names.join(", ")}`;
+    if (actionState === "before-result") {
+        content += `You must use one of the following tools: ${forcedAction.data.action_names.join(", ")}`;
+    } else {
+        content += `You were asked to use one of the following tools: ${forcedAction.data.action_names.join(", ")}`;
+    }
 
     return {
         role: "user",
@@ -0,0 +1,283 @@
+// Connects to the backend's dashboard WebSocket and renders live updates about every session.
+// The message formats are defined by DashboardUpdate and DashboardCommand in backend/src/dashboard-server.ts
+
+/** The number of WebSocket messages kept per session */
+const MAX_TRAFFIC = 500;
+
+/** Session snapshots, by session ID */
+const sessions = new Map();
+/** WebSocket traffic, by session ID, newest first */
+const traffic = new Map();
+let selectedSessionId = undefined;
+let socket = undefined;
+/** The timestamp of the last utterance that was played, so that each one is only played once */
+let lastPlayedUtterance = undefined;
+
+function connect() {
+    const protocol = location.protocol === "https:" ? "wss:" : "ws:";
+    socket = new WebSocket(`${protocol}//${location.host}/ws`);
+    socket.addEventListener("open", () => setConnectionStatus(true));
+    socket.addEventListener("close", () => {
+        setConnectionStatus(false);
+        // Try to reconnect, e.g. after the backend restarts
+        setTimeout(connect, 2000);
+    });
+    socket.addEventListener("message", (event) => handleUpdate(JSON.parse(event.data)));
+}
+
+function handleUpdate(update) {
+    switch (update.type) {
+        case "snapshot":
+            sessions.clear();
+            update.sessions.forEach((session) => sessions.set(session.sessionId, session));
+            break;
+        case "session":
+            sessions.set(update.session.sessionId, update.session);
+            break;
+        case "session-closed":
+            sessions.delete(update.sessionId);
+            traffic.delete(update.sessionId);
+            break;
+        case "traffic": {
+            const entries = traffic.get(update.sessionId) ?? [];
+            entries.unshift(update);
+            entries.length = Math.min(entries.length, MAX_TRAFFIC);
+            traffic.set(update.sessionId, entries);
+            break;
+        }
+        case "error":
+            showError(update.message);
+            return;
+    }
+    if (!sessions.has(selectedSessionId)) {
+        selectedSessionId = sessions.keys().next().value;
+    }
+    render();
+}
+
+/**
+ * Send a command about the selected session to the backend.
+ * @param command the name of the command
+ * @param options any other properties of the command
+ */
+function sendCommand(command, options = {}) {
+    if (!socket || socket.readyState !== WebSocket.OPEN || !selectedSessionId) {
+        return;
+    }
+    if (command === "disconnect" && !confirm(`Disconnect ${selectedSessionId}?`)) {
+        return;
+    }
+    if (command === "shutdown-immediate" && !confirm(`Shut down ${selectedSessionId}?`)) {
+        return;
+    }
+    socket.send(JSON.stringify({ ...options, command, sessionId: selectedSessionId }));
+}
+
+// *************
+// * Rendering *
+// *************
+
+function render() {
+    renderTabs();
+    const session = sessions.get(selectedSessionId);
+    document.getElementById("no-sessions").hidden = sessions.size > 0;
+    document.getElementById("session").hidden = !session;
+    if (!session) {
+        return;
+    }
+
+    const { id: stateId, ...stateDetails } = session.state;
+    setText("session-id", session.sessionId);
+    setText("session-game", session.game ?? "(waiting for startup)");
+    setText("session-persona", session.persona);
+    setText("session-state", stateId);
+    setText(
+        "session-state-details",
+        Object.keys(stateDetails).length > 0 ? JSON.stringify(stateDetails, null, 2) : ""
+    );
+    document.getElementById("session-paused").hidden = !session.paused;
+    document.getElementById("pause-button").hidden = session.paused;
+    document.getElementById("resume-button").hidden = !session.paused;
+    document.getElementById("session-operator").hidden = !session.operatorMode;
+    document.getElementById("take-over-button").hidden = session.operatorMode;
+    document.getElementById("hand-back-button").hidden = !session.operatorMode;
+    const shutdown = session.shutdownRequest;
+    setText("session-shutdown", shutdown ? `${shutdown.mode} shutdown requested` : "");
+    document.getElementById("session-shutdown").hidden = !shutdown;
+    document.getElementById("cancel-shutdown-button").hidden = shutdown?.mode !== "graceful";
+
+    playSpeech(session);
+
+    renderActions(session.actions);
+    renderQueue(session.queue);
+    renderTranscript(session.transcript);
+    renderTraffic(traffic.get(session.sessionId) ?? []);
+}
+
+/**
+ * Play what Jippity is saying in a session, if text-to-speech is enabled on the backend.
+ */
+function playSpeech(session) {
+    const utterance = session.state.utterance;
+    if (
+        !document.getElementById("play-speech").checked ||
+        !utterance ||
+        utterance.timestamp === lastPlayedUtterance
+    ) {
+        return;
+    }
+    lastPlayedUtterance = utterance.timestamp;
+    const query = new URLSearchParams({ session: session.sessionId, t: utterance.timestamp });
+    new Audio(`/speech/current.wav?${query}`)
+        .play()
+        .catch((error) => showError(`Failed to play speech: ${error.message}`));
+}
+
+function renderTabs() {
+    const tabs = document.getElementById("session-tabs");
+    tabs.replaceChildren(
+        ...[...sessions.values()].map((session) => {
+            const button = element("button", `${session.sessionId}: ${session.game ?? "?"}`);
+            button.classList.toggle("selected", session.sessionId === selectedSessionId);
+            button.addEventListener("click", () => {
+                selectedSessionId = session.sessionId;
+                render();
+            });
+            return button;
+        })
+    );
+}
+
+function renderActions(actions) {
+    setText("actions-count", `(${actions.length})`);
+    document
+        .getElementById("action-names")
+        .replaceChildren(...actions.map((action) => new Option(action.name, action.name)));
+    document.getElementById("actions").replaceChildren(
+        ...actions.map((action) => {
+            const container = element("div");
+            container.className = "action";
+            container.append(element("code", action.name), element("p", action.description));
+            if (action.schema && Object.keys(action.schema).length > 0) {
+                container.append(element("pre", JSON.stringify(action.schema, null, 2)));
+            }
+            return container;
+        })
+    );
+}
+
+function renderQueue(queue) {
+    setText("queue-count", `(${queue.length})`);
+    document
+        .getElementById("queue")
+        .replaceChildren(...queue.map((message) => element("li", JSON.stringify(message))));
+}
+
+function renderTranscript(transcript) {
+    setText("transcript-count", `(${transcript.length})`);
+    const container = document.getElementById("transcript");
+    const scrolledToBottom =
+        container.parentElement.scrollHeight - container.parentElement.scrollTop <=
+        container.parentElement.clientHeight + 10;
+    container.replaceChildren(
+        ...transcript.map((message) => {
+            const row = element("div");
+            row.className = "transcript-message";
+            const role = element("span", message.role);
+            role.className = `role role-${message.role}`;
+            row.append(role, element("pre", messageText(message)));
+            return row;
+        })
+    );
+    // Keep following the conversation, unless the user scrolled up to read something
+    if (scrolledToBottom) {
+        container.parentElement.scrollTop = container.parentElement.scrollHeight;
+    }
+}
+
+function renderTraffic(entries) {
+    document.getElementById("traffic").replaceChildren(
+        ...entries.map((entry) => {
+            const row = element("tr");
+            const direction = element(
+                "td",
+                entry.direction === "received" ? "game → Jippity" : "Jippity → game"
+            );
+            direction.className = `direction-${entry.direction}`;
+            row.append(
+                element("td", new Date(entry.time).toLocaleTimeString()),
+                direction,
+                element("td", entry.data)
+            );
+            return row;
+        })
+    );
+}
+
+/**
+ * Return the text of an OpenAI chat message, including any tool calls.
+ */
+function messageText(message) {
+    let text =
+        typeof message.content === "string"
+            ? message.content
+            : (message.content ?? []).map((part) => part.text ?? "").join("");
+    for (const toolCall of message.tool_calls ?? []) {
+        text += `\n→ ${toolCall.function.name}(${toolCall.function.arguments}) [${toolCall.id}]`;
+    }
+    if (message.tool_call_id) {
+        text = `[${message.tool_call_id}] ${text}`;
+    }
+    return text.trim();
+}
+
+function setConnectionStatus(connected) {
+    const status = document.getElementById("connection-status");
+    status.textContent = connected ? "Connected" : "Disconnected";
+    status.className = `badge ${connected ? "badge-good" : "badge-bad"}`;
+}
+
+function showError(message) {
+    const error = document.getElementById("error");
+    error.textContent = message;
+    error.hidden = false;
+    setTimeout(() => (error.hidden = true), 5000);
+}
+
+function setText(id, text) {
+    document.getElementById(id).textContent = text;
+}
+
+/**
+ * Create an element; text is always set with textContent, since it may come from the game.
+ */
+function element(tag, text) {
+    const el = document.createElement(tag);
+    if (text !== undefined) {
+        el.textContent = text;
+    }
+    return el;
+}
+
+document.querySelectorAll("button[data-command]").forEach((button) => {
+    button.addEventListener("click", () => sendCommand(button.dataset.command));
+});
+document
+    .getElementById("cancel-shutdown-button")
+    .addEventListener("click", () => sendCommand("shutdown-graceful", { wantsShutdown: false }));
+document.getElementById("send-action-form").addEventListener("submit", (event) => {
+    event.preventDefault();
+    const form = new FormData(event.target);
+    sendCommand("send-action", {
+        name: form.get("name"),
+        id: form.get("id"),
+        data: form.get("data")
+    });
+});
+document.getElementById("inject-message-form").addEventListener("submit", (event) => {
+    event.preventDefault();
+    const form = new FormData(event.target);
+    sendCommand("inject-message", { content: form.get("content") });
+    event.target.reset();
+});
+connect();